@@ -0,0 +1,347 @@
+import { EventEmitter } from "./events";
+import {
+  DEFAULT_URL_PREFIX,
+  MESSAGE_TARGET,
+  getFileUrl,
+  getInfos,
+  saveInfo,
+} from "./backgroundStore";
+import type {
+  BackgroundDownloadInfo,
+  BackgroundDownloadMode,
+  BackgroundDownloadState,
+  BackgroundFetchManager,
+  BackgroundFetchRegistration,
+  BackgroundRequestOptions,
+  ServiceWorkerMessage,
+  ServiceWorkerRequest,
+  ServiceWorkerResponse,
+} from "./backgroundStore";
+import { CanceledError, DownloaderError, fromErrorData } from "./errors";
+import { generateId, getFilenameFromUrl } from "./utils";
+
+/* NOTE: The page side of downloadServiceWorker.ts. Downloads started here
+  keep going after the page is closed, for as long as the browser lets
+  them: Background Fetch downloads until they are done, even across
+  restarts, while the service worker engine is stopped with the service
+  worker and resumed from its last saved chunk when it wakes up again.
+  Pages opened later attach to them with getDownloads().
+*/
+
+export interface BackgroundDownloadsOptions {
+  /** Must match the service worker's. */
+  urlPrefix?: string;
+  /**
+   * Use Background Fetch where the browser has it. Defaults to true. Set
+   * to false when downloads need the engine's chunking or verification.
+   */
+  backgroundFetch?: boolean;
+}
+
+export interface BackgroundDownloadOptions extends BackgroundRequestOptions {
+  /** Defaults to a generated one. */
+  id?: string;
+  /** Defaults to the last path segment of the URL. */
+  filename?: string;
+  /** Shown in the browser's Background Fetch UI. Defaults to the filename. */
+  title?: string;
+  /** Expected size, for the Background Fetch UI. */
+  size?: number;
+}
+
+export interface BackgroundDownloadEvents {
+  progress: { loaded: number; total: number }; // total is 0 while unknown
+  stateChange: BackgroundDownloadState;
+  complete: string; // URL of the file
+  error: Error;
+}
+
+type Registration = ServiceWorkerRegistration & {
+  backgroundFetch?: BackgroundFetchManager;
+  sync?: { register(tag: string): Promise<void> };
+};
+
+interface DownloadControls {
+  request(request: ServiceWorkerRequest): Promise<unknown>;
+  getFetch(id: string): Promise<BackgroundFetchRegistration | undefined>;
+}
+
+/**
+ * A download run by the browser or the service worker. Its state is a
+ * copy, updated by the messages the service worker posts.
+ */
+export class BackgroundDownload extends EventEmitter<BackgroundDownloadEvents> {
+  readonly id: string;
+  readonly url: string;
+  readonly filename: string;
+  readonly mode: BackgroundDownloadMode;
+  /** Where the file is served once completed, e.g. for a download link. */
+  readonly fileUrl: string;
+  state: BackgroundDownloadState;
+  loaded: number;
+  total: number;
+  error: Error | null;
+  private controls: DownloadControls;
+
+  constructor(
+    info: BackgroundDownloadInfo,
+    fileUrl: string,
+    controls: DownloadControls,
+  ) {
+    super();
+    this.id = info.id;
+    this.url = info.url;
+    this.filename = info.filename;
+    this.mode = info.mode;
+    this.fileUrl = fileUrl;
+    this.state = info.state;
+    this.loaded = info.loaded;
+    this.total = info.total;
+    this.error = info.error ? fromErrorData(info.error) : null;
+    this.controls = controls;
+  }
+
+  /** Resolves with `fileUrl` once the file is stored. */
+  done(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const settle = (state: BackgroundDownloadState) => {
+        switch (state) {
+          case "completed":
+            return resolve(this.fileUrl);
+          case "failed":
+            return reject(this.error ?? new DownloaderError("Download failed"));
+          case "canceled":
+            return reject(new CanceledError());
+          default:
+            return false;
+        }
+      };
+      if (settle(this.state) === false) {
+        const off = this.on("stateChange", (state) => {
+          if (settle(state) !== false) off();
+        });
+      }
+    });
+  }
+
+  /** Background Fetch downloads are paused from the browser's UI only. */
+  pause(): Promise<void> {
+    return this.engineRequest("pause");
+  }
+
+  resume(): Promise<void> {
+    return this.engineRequest("resume");
+  }
+
+  async cancel(): Promise<void> {
+    if (this.mode === "background-fetch") {
+      const fetch = await this.controls.getFetch(this.id);
+      await fetch?.abort();
+      return;
+    }
+    await this.controls.request({ type: "cancel", id: this.id });
+  }
+
+  /** Cancels the download if it is running, and deletes its file. */
+  async remove(): Promise<void> {
+    await this.controls.request({ type: "remove", id: this.id });
+  }
+
+  /** Called by BackgroundDownloads with each update the worker posts. */
+  handleUpdate(info: BackgroundDownloadInfo) {
+    if (info.loaded !== this.loaded || info.total !== this.total) {
+      this.loaded = info.loaded;
+      this.total = info.total;
+      this.emit("progress", { loaded: info.loaded, total: info.total });
+    }
+    if (info.state === this.state) return;
+
+    this.state = info.state;
+    if (info.error) this.error = fromErrorData(info.error);
+    this.emit("stateChange", info.state);
+    if (info.state === "completed") {
+      this.emit("complete", this.fileUrl);
+    } else if (info.state === "failed" && this.error) {
+      this.emit("error", this.error);
+    }
+  }
+
+  private async engineRequest(type: "pause" | "resume") {
+    if (this.mode === "background-fetch") {
+      throw new DownloaderError(`Background Fetch downloads can't ${type}`);
+    }
+    await this.controls.request({ type, id: this.id });
+  }
+}
+
+/**
+ * Starts and lists background downloads. Needs a service worker that calls
+ * installDownloadHandlers().
+ */
+export class BackgroundDownloads {
+  private registration: Registration;
+  private urlPrefix: string;
+  private useBackgroundFetch: boolean;
+  private downloads: Map<string, BackgroundDownload> = new Map();
+  private controls: DownloadControls;
+
+  constructor(
+    registration: ServiceWorkerRegistration,
+    options: BackgroundDownloadsOptions = {},
+  ) {
+    this.registration = registration;
+    this.urlPrefix = options.urlPrefix ?? DEFAULT_URL_PREFIX;
+    this.useBackgroundFetch =
+      (options.backgroundFetch ?? true) && !!this.registration.backgroundFetch;
+    this.controls = {
+      request: (request) => this.request(request),
+      getFetch: async (id) => this.registration.backgroundFetch?.get(id),
+    };
+    navigator.serviceWorker.addEventListener("message", (event) => {
+      const data = event.data as ServiceWorkerMessage | null;
+      if (data?.target === MESSAGE_TARGET && "download" in data) {
+        this.downloads.get(data.download.id)?.handleUpdate(data.download);
+      }
+    });
+  }
+
+  static isSupported(): boolean {
+    return (
+      typeof navigator !== "undefined" &&
+      "serviceWorker" in navigator &&
+      typeof caches !== "undefined"
+    );
+  }
+
+  /** Whether downloads go to Background Fetch rather than the engine. */
+  get backgroundFetch(): boolean {
+    return this.useBackgroundFetch;
+  }
+
+  async download(
+    url: string,
+    options: BackgroundDownloadOptions = {},
+  ): Promise<BackgroundDownload> {
+    const { id = generateId(), title, size, ...rest } = options;
+    const { filename = getFilenameFromUrl(url), ...requestOptions } = rest;
+    const info: BackgroundDownloadInfo = {
+      id,
+      url,
+      filename,
+      mode: this.useBackgroundFetch ? "background-fetch" : "service-worker",
+      state: "queued",
+      loaded: 0,
+      total: size ?? 0,
+      createdAt: Date.now(),
+    };
+    const download = this.attach(info);
+
+    if (this.useBackgroundFetch) {
+      // Stored first, so the service worker knows the download when the
+      // browser reports it finished
+      await saveInfo(info, this.urlPrefix);
+      const request = new Request(url, {
+        headers: requestOptions.headers,
+        credentials: requestOptions.withCredentials ? "include" : "same-origin",
+      });
+      const fetch = await this.registration.backgroundFetch!.fetch(
+        id,
+        [request],
+        { title: title ?? filename, downloadTotal: size },
+      );
+      this.watchFetch(download, fetch);
+    } else {
+      await this.request({ type: "start", info, options: requestOptions });
+      // Wakes the service worker to resume once the network is back
+      await this.registration.sync?.register(MESSAGE_TARGET).catch(() => {});
+    }
+    return download;
+  }
+
+  /**
+   * Every download stored, including the ones started before this page
+   * was opened, with their current state.
+   */
+  async getDownloads(): Promise<BackgroundDownload[]> {
+    const infos = this.registration.active
+      ? ((await this.request({ type: "list" })) as BackgroundDownloadInfo[])
+      : await getInfos(this.urlPrefix);
+
+    const downloads: BackgroundDownload[] = [];
+    for (const info of infos) {
+      const existing = this.downloads.get(info.id);
+      if (existing) {
+        existing.handleUpdate(info);
+        downloads.push(existing);
+        continue;
+      }
+      const download = this.attach(info);
+      if (info.mode === "background-fetch" && info.state === "queued") {
+        const fetch = await this.controls.getFetch(info.id);
+        if (fetch) this.watchFetch(download, fetch);
+      }
+      downloads.push(download);
+    }
+    return downloads;
+  }
+
+  private attach(info: BackgroundDownloadInfo): BackgroundDownload {
+    const download = new BackgroundDownload(
+      info,
+      getFileUrl(info.id, this.urlPrefix),
+      this.controls,
+    );
+    this.downloads.set(info.id, download);
+    return download;
+  }
+
+  // The service worker only hears when a Background Fetch ends, so its
+  // progress comes from the registration
+  private watchFetch(
+    download: BackgroundDownload,
+    fetch: BackgroundFetchRegistration,
+  ) {
+    const onProgress = () => {
+      if (fetch.result) {
+        fetch.removeEventListener("progress", onProgress);
+        return; // The service worker reports the outcome
+      }
+      download.handleUpdate({
+        id: download.id,
+        url: download.url,
+        filename: download.filename,
+        mode: download.mode,
+        state: fetch.downloaded > 0 ? "downloading" : download.state,
+        loaded: fetch.downloaded,
+        total: fetch.downloadTotal || download.total,
+        createdAt: 0,
+      });
+    };
+    fetch.addEventListener("progress", onProgress);
+  }
+
+  private async request(request: ServiceWorkerRequest): Promise<unknown> {
+    await navigator.serviceWorker.ready;
+    const worker = this.registration.active;
+    if (!worker) {
+      throw new DownloaderError("No active service worker");
+    }
+    return new Promise((resolve, reject) => {
+      const channel = new MessageChannel();
+      channel.port1.onmessage = (event) => {
+        const response = event.data as ServiceWorkerResponse;
+        channel.port1.close();
+        if (response.error) {
+          reject(fromErrorData(response.error));
+        } else {
+          resolve(response.value);
+        }
+      };
+      const message: ServiceWorkerMessage = {
+        target: MESSAGE_TARGET,
+        request,
+      };
+      worker.postMessage(message, [channel.port2]);
+    });
+  }
+}
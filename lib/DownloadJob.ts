@@ -1,34 +1,342 @@
 import { EventEmitter } from "./events";
-import { DownloadTask, DownloadTaskProgress } from "./DownloadTask";
-import { calculatePercent } from "./utils";
+import {
+  DownloadTask,
+  DownloadTaskOptions,
+  DownloadTaskProgress,
+  RetryEvent,
+} from "./DownloadTask";
+import { calculateEta, calculatePercent, generateId } from "./utils";
+import { downloadStorage, JobRecord } from "./storage";
+import { SpeedMeter } from "./speedMeter";
+import { QuotaError } from "./errors";
+import { getReservedSpace } from "./quota";
 
 export interface JobProgress {
   loaded: number;
   total: number;
   percent: number;
+  speed: number; // Bytes per second, summed over all tasks
+  averageSpeed: number; // Moving average, summed over all tasks
+  eta: number | null; // Seconds until every task is done, null if unknown
+  elapsed: number; // Time in ms with at least one task active
 }
 
-export class DownloadJob extends EventEmitter {
+/**
+ * - "queued": no task has started yet
+ * - "running": started, and neither paused nor done
+ * - "paused": paused through pause(), or only paused tasks are left
+ * - "partially_failed": every task is done and at least one failed
+ * - "completed": every task is done, none failed
+ * - "canceled": canceled through cancel(), or every task was canceled
+ */
+export type DownloadJobState =
+  | "queued"
+  | "running"
+  | "paused"
+  | "partially_failed"
+  | "completed"
+  | "canceled";
+
+/**
+ * How a task ended, from done() and the job summary. `Task` is a
+ * WorkerDownloadTask for jobs run by a WorkerDownloadManager.
+ */
+export type TaskOutcome<Task = DownloadTask> =
+  | {
+      task: Task;
+      status: "completed";
+      result: Blob | null; // null if it completed before a page reload
+      bytes: number;
+    }
+  | {
+      task: Task;
+      status: "failed";
+      error: Error | null; // null if it failed before a page reload
+      bytes: number; // Received before it failed
+    }
+  | { task: Task; status: "canceled"; bytes: number };
+
+/** Payload of the job's "complete" event. */
+export interface JobSummary<Task = DownloadTask> {
+  state: DownloadJobState; // Final, unless getSummary() is called early
+  tasks: TaskOutcome<Task>[];
+  completed: number;
+  failed: number;
+  canceled: number;
+  bytes: number; // Summed over all tasks
+}
+
+/**
+ * How a job hands its tasks to whoever runs them. DownloadManager puts
+ * them on its queue; a job on its own starts them directly.
+ */
+export interface JobScheduler {
+  enqueue(tasks: DownloadTask[]): void;
+  /** Takes waiting tasks off the queue; running ones are left alone. */
+  dequeue(tasks: DownloadTask[]): void;
+}
+
+const directScheduler: JobScheduler = {
+  enqueue(tasks) {
+    for (const task of tasks) {
+      if (task.state === "paused") {
+        task.resume();
+      } else {
+        task.start();
+      }
+    }
+  },
+  dequeue() {},
+};
+
+const FINAL_STATES: DownloadJobState[] = [
+  "completed",
+  "partially_failed",
+  "canceled",
+];
+
+export interface DownloadJobEvents<Task = DownloadTask> {
+  // The first of the job's tasks started (once per session)
+  start: void;
+  taskStart: Task;
+  progress: JobProgress;
+  taskProgress: { task: Task; progress: DownloadTaskProgress };
+  taskComplete: { task: Task; blob: Blob };
+  taskError: { task: Task; error: Error };
+  taskRetry: { task: Task; retry: RetryEvent };
+  // The task paused for lack of space; see QuotaError.bytesNeeded
+  taskQuotaExceeded: { task: Task; error: QuotaError };
+  // The job paused before starting, as its files don't fit; see checkQuota()
+  quotaExceeded: QuotaError;
+  stateChange: DownloadJobState;
+  // Every task completed, failed or was canceled; again after retryFailed()
+  complete: JobSummary<Task>;
+}
+
+export class DownloadJob extends EventEmitter<DownloadJobEvents> {
+  id: string;
   tasks: DownloadTask[];
-  private completed = 0;
-  private errors = 0;
+  readonly options: DownloadTaskOptions;
+  readonly createdAt: number;
   private jobTotalLoaded = 0;
   private jobTotalSize = 0;
   private taskProgress: Map<DownloadTask, { loaded: number; total: number }> =
     new Map();
+  // Only used for active time; speeds come from the tasks
+  private activity = new SpeedMeter();
+  private started = false;
+  // Kept for done(); completed results stay referenced as long as the job
+  private results: Map<DownloadTask, Blob> = new Map();
+  private errors: Map<DownloadTask, Error> = new Map();
+  private scheduler: JobScheduler = directScheduler;
+  private paused = false;
+  // Tasks still fetching metadata when the job was paused
+  private pausing: Set<DownloadTask> = new Set();
+  private canceled = false;
+  private lastState: DownloadJobState;
 
-  constructor(urls: string[], filenames: string[]) {
+  /**
+   * Each entry of `urls` is a URL, or a list of URLs serving the same
+   * file: the first is the task's `url`, the rest its mirrors.
+   */
+  constructor(
+    urls: (string | string[])[],
+    filenames: string[],
+    options: DownloadTaskOptions = {},
+    id = generateId(),
+    createdAt = Date.now(),
+    taskIds: string[] = [],
+  ) {
     super();
-    this.tasks = urls.map((u, i) => new DownloadTask(u, filenames[i]));
+    this.id = id;
+    this.options = options;
+    this.createdAt = createdAt;
+    this.tasks = urls.map((u, i) => {
+      const [url, ...mirrors] = Array.isArray(u) ? u : [u];
+      const taskOptions = mirrors.length ? { ...options, mirrors } : options;
+      return new DownloadTask(url, filenames[i], taskOptions, taskIds[i]);
+    });
     this.tasks.forEach((t) =>
       this.taskProgress.set(t, { loaded: 0, total: 0 }),
     );
+    this.lastState = this.state;
     this.attachTaskEvents();
   }
 
+  get state(): DownloadJobState {
+    const states = this.tasks.map((t) => t.state);
+    if (this.isSettled()) {
+      if (this.canceled) return "canceled";
+      if (states.includes("error")) return "partially_failed";
+      if (!states.includes("completed")) return "canceled";
+      return "completed";
+    }
+    if (
+      states.some(
+        (s) =>
+          s === "downloading" ||
+          s === "fetching_metadata" ||
+          s === "assembling",
+      )
+    ) {
+      return "running";
+    }
+    if (this.paused || states.includes("paused")) return "paused";
+    // Between tasks, e.g. waiting for a queue slot, a started job keeps running
+    return states.every((s) => s === "idle") ? "queued" : "running";
+  }
+
+  /** Called by DownloadManager so job controls go through its queue. */
+  setScheduler(scheduler: JobScheduler) {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Takes waiting tasks off the queue and pauses running ones. Tasks still
+   * fetching metadata pause once they start downloading; assembling ones
+   * finish.
+   */
+  pause() {
+    if (this.isFinal()) return;
+    this.paused = true;
+    this.scheduler.dequeue(this.tasks);
+    for (const task of this.tasks) {
+      if (task.state === "fetching_metadata") {
+        this.pausing.add(task);
+      } else {
+        task.pause();
+      }
+    }
+    this.updateState();
+  }
+
+  /** Queues the tasks that haven't started yet or were paused. */
+  resume() {
+    if (this.isFinal()) return;
+    this.paused = false;
+    this.pausing.clear();
+    this.scheduler.enqueue(
+      this.tasks.filter((t) => t.state === "idle" || t.state === "paused"),
+    );
+    this.updateState();
+  }
+
+  /**
+   * Checks that the files of the tasks not running yet fit in the free
+   * space the storage reports, after what running tasks still have to
+   * store. Sizes come from saved metadata or a HEAD request per file (see
+   * DownloadTask.fetchSize()). If they don't fit, the job pauses and emits
+   * "quotaExceeded". Resolves with whether the job may start; false too if
+   * it was paused or canceled meanwhile. DownloadManager.startJob() runs
+   * it before queueing the tasks, unless `checkQuota` is false.
+   */
+  async checkQuota(): Promise<boolean> {
+    const wasPaused = this.paused;
+    const error = await this.findQuotaShortfall();
+    if ((this.paused && !wasPaused) || this.isFinal()) return false;
+    if (error) {
+      this.pause();
+      this.emit("quotaExceeded", error);
+      return false;
+    }
+    return true;
+  }
+
+  private async findQuotaShortfall(): Promise<QuotaError | null> {
+    const storage = this.options.storage ?? downloadStorage;
+    if (this.options.checkQuota === false || !storage.getAvailableSpace) {
+      return null;
+    }
+
+    const waiting = this.tasks.filter(
+      (t) => t.state === "idle" || t.state === "paused" || t.state === "error",
+    );
+    const sizes = await Promise.all(waiting.map((t) => t.fetchSize()));
+    const needed = waiting.reduce(
+      (sum, task, i) => sum + Math.max(0, sizes[i] - task.getProgress().loaded),
+      0,
+    );
+
+    let available: number | null = null;
+    try {
+      available = await storage.getAvailableSpace();
+    } catch (err) {
+      console.warn("DownloadJob: Failed to estimate free space.", err);
+    }
+    if (available === null) return null;
+    available = Math.max(0, available - getReservedSpace());
+    if (available >= needed) return null;
+    return new QuotaError(
+      `Not enough storage: ${needed} bytes needed, ${available} available`,
+      needed,
+      available,
+    );
+  }
+
+  /** Cancels every task that hasn't completed. */
+  cancel() {
+    const pending = this.tasks.filter(
+      (t) => t.state !== "completed" && t.state !== "canceled",
+    );
+    if (pending.length === 0) return;
+    this.canceled = true;
+    this.paused = false;
+    this.pausing.clear();
+    this.scheduler.dequeue(pending);
+    pending.forEach((task) => task.cancel());
+    this.updateState();
+  }
+
+  /**
+   * Queues the failed tasks again. They continue from their saved chunks,
+   * and "complete" fires again once they are done.
+   */
+  retryFailed() {
+    const failed = this.tasks.filter((t) => t.state === "error");
+    if (failed.length === 0) return;
+    this.paused = false;
+    this.scheduler.enqueue(failed);
+    this.updateState();
+  }
+
+  getSummary(): JobSummary {
+    const tasks = this.getOutcomes();
+    const count = (status: TaskOutcome["status"]) =>
+      tasks.filter((t) => t.status === status).length;
+    return {
+      state: this.state,
+      tasks,
+      completed: count("completed"),
+      failed: count("failed"),
+      canceled: count("canceled"),
+      bytes: tasks.reduce((sum, t) => sum + t.bytes, 0),
+    };
+  }
+
   private attachTaskEvents() {
     for (const task of this.tasks) {
-      task.on("start", () => this.emit("taskStart", task));
+      task.on("start", () => {
+        if (!this.started) {
+          this.started = true;
+          this.emit("start");
+        }
+        this.emit("taskStart", task);
+      });
+      task.on("stateChange", (state) => {
+        if (this.pausing.delete(task) && state === "downloading") {
+          task.pause(); // Reports "paused" through this handler again
+          return;
+        }
+        this.updateActivity();
+        // Final task states are handled below, once the outcome is recorded
+        if (
+          state !== "completed" &&
+          state !== "error" &&
+          state !== "canceled"
+        ) {
+          this.updateState();
+        }
+      });
 
       task.on("progress", (p: DownloadTaskProgress) => {
         // Get the previous progress for this task
@@ -41,36 +349,212 @@ export class DownloadJob extends EventEmitter {
         // Store this task's progress
         this.taskProgress.set(task, { loaded: p.loaded, total: p.total });
 
-        // Recalculate percent
-        const percent = calculatePercent(this.jobTotalLoaded, this.jobTotalSize);
-
-        this.emit("progress", {
-          loaded: this.jobTotalLoaded,
-          total: this.jobTotalSize,
-          percent: percent,
-        });
+        this.emit("progress", this.getProgress());
 
         // Emit task-specific progress too
         this.emit("taskProgress", { task, progress: p });
       });
 
+      task.on("start", () => {
+        this.results.delete(task);
+        this.errors.delete(task);
+        // Restarting a task after cancel() revives the job
+        this.canceled = false;
+      });
+
       task.on("complete", (blob: Blob) => {
-        this.completed++;
+        this.results.set(task, blob);
         this.emit("taskComplete", { task, blob }); // Pass the blob up
-        this.checkJobFinished();
+        this.updateState();
       });
 
+      task.on("retry", (retry) => this.emit("taskRetry", { task, retry }));
+      task.on("quotaExceeded", (error) =>
+        this.emit("taskQuotaExceeded", { task, error }),
+      );
+
       task.on("error", (e: Error) => {
-        this.errors++;
+        this.errors.set(task, e);
         this.emit("taskError", { task, error: e });
-        this.checkJobFinished();
+        this.updateState();
       });
+
+      task.on("cancel", () => this.updateState());
     }
   }
 
-  private checkJobFinished() {
-    if (this.completed + this.errors === this.tasks.length) {
-      this.emit("complete");
+  getProgress(): JobProgress {
+    let speed = 0;
+    let averageSpeed = 0;
+    for (const task of this.tasks) {
+      const progress = task.getProgress();
+      speed += progress.speed;
+      averageSpeed += progress.averageSpeed;
+    }
+    const remaining = this.estimateRemainingBytes();
+
+    return {
+      loaded: this.jobTotalLoaded,
+      total: this.jobTotalSize,
+      percent: calculatePercent(this.jobTotalLoaded, this.jobTotalSize),
+      speed,
+      averageSpeed,
+      eta: remaining === null ? null : calculateEta(remaining, averageSpeed),
+      elapsed: this.activity.getElapsed(),
+    };
+  }
+
+  /**
+   * Used by DownloadManager.restore() to carry over active time, once the
+   * tasks are rehydrated. Their restored states aren't reported as changes.
+   */
+  restoreElapsed(elapsed: number) {
+    this.activity = new SpeedMeter(elapsed);
+    this.updateActivity();
+    this.lastState = this.state;
+  }
+
+  /**
+   * Bytes left across all tasks that may still run, including queued ones.
+   * Tasks whose size isn't known yet count as the average known size.
+   */
+  private estimateRemainingBytes(): number | null {
+    const pending = this.tasks.filter(
+      (t) =>
+        t.state !== "completed" &&
+        t.state !== "canceled" &&
+        t.state !== "error",
+    );
+    const sized = this.tasks
+      .map((t) => t.getProgress())
+      .filter((p) => p.total > 0);
+    const unsized = pending.filter((t) => t.getProgress().total === 0).length;
+
+    if (unsized > 0 && sized.length === 0) return null;
+    const averageSize =
+      sized.reduce((sum, p) => sum + p.total, 0) / Math.max(1, sized.length);
+
+    let remaining = unsized * averageSize;
+    for (const task of pending) {
+      const { loaded, total } = task.getProgress();
+      if (total > 0) remaining += total - loaded;
+    }
+    return remaining;
+  }
+
+  private updateActivity() {
+    const active = this.tasks.some(
+      (t) =>
+        t.state === "downloading" ||
+        t.state === "fetching_metadata" ||
+        t.state === "assembling",
+    );
+    if (active) {
+      this.activity.start();
+    } else {
+      this.activity.stop();
+    }
+  }
+
+  /**
+   * Resolves once every task has completed, failed or been canceled, with
+   * one outcome per task. Never rejects.
+   */
+  done(): Promise<TaskOutcome[]> {
+    return new Promise((resolve) => {
+      const check = () => {
+        if (!this.isSettled()) return;
+        unsubscribe.forEach((off) => off());
+        resolve(this.getOutcomes());
+      };
+      const unsubscribe = [
+        this.on("taskComplete", check),
+        this.on("taskError", check),
+        ...this.tasks.map((task) => task.on("cancel", check)),
+      ];
+      check();
+    });
+  }
+
+  private getOutcomes(): TaskOutcome[] {
+    return this.tasks.map((task): TaskOutcome => {
+      const bytes = task.getProgress().loaded;
+      if (task.state === "completed") {
+        return {
+          task,
+          status: "completed",
+          result: this.results.get(task) ?? null,
+          bytes,
+        };
+      }
+      if (task.state === "error") {
+        return {
+          task,
+          status: "failed",
+          error: this.errors.get(task) ?? null,
+          bytes,
+        };
+      }
+      return { task, status: "canceled", bytes };
+    });
+  }
+
+  /**
+   * Serializable snapshot of this job, persisted by DownloadManager.
+   */
+  toRecord(): JobRecord {
+    const { storage, rateLimiter, signal, transport, coordinator, ...rest } =
+      this.options;
+    if (rest.retryPolicy) {
+      // Error classes can't be persisted; pass them to restore() again
+      const { retryableErrors, ...retryPolicy } = rest.retryPolicy;
+      rest.retryPolicy = retryPolicy;
+    }
+    if (rest.request) {
+      // Headers may hold credentials, so only withCredentials is kept;
+      // pass headers and callbacks to restore() again
+      rest.request = { withCredentials: rest.request.withCredentials };
+    }
+    return {
+      id: this.id,
+      // JSON round-trip drops callbacks and other non-cloneable values
+      options: JSON.parse(JSON.stringify(rest)),
+      tasks: this.tasks.map((task) => ({
+        id: task.id,
+        // Not task.url, which resolveUrl() may have replaced by an
+        // expiring one; restored tasks resolve a fresh one
+        url: task.sourceUrl,
+        ...(task.mirrors.length > 0 && { mirrors: task.mirrors }),
+        filename: task.filename,
+        state: task.state,
+        totalBytes: task.getProgress().total,
+        elapsed: task.getProgress().elapsed,
+      })),
+      createdAt: this.createdAt,
+      elapsed: this.activity.getElapsed(),
+    };
+  }
+
+  private isSettled(): boolean {
+    return this.tasks.every(
+      (t) =>
+        t.state === "completed" ||
+        t.state === "error" ||
+        t.state === "canceled",
+    );
+  }
+
+  private isFinal(): boolean {
+    return FINAL_STATES.includes(this.state);
+  }
+
+  private updateState() {
+    const state = this.state;
+    if (state === this.lastState) return;
+    this.lastState = state;
+    this.emit("stateChange", state);
+    if (FINAL_STATES.includes(state)) {
+      this.emit("complete", this.getSummary());
     }
   }
 }
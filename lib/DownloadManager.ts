@@ -1,51 +1,318 @@
-import { DownloadJob, JobProgress } from "./DownloadJob";
+import { EventEmitter } from "./events";
+import { DownloadJob, DownloadJobState, JobProgress } from "./DownloadJob";
 import { DownloaderQueue } from "./DownloaderQueue";
+import {
+	DownloadTask,
+	DownloadTaskOptions,
+	RequestOptions,
+	RetryEvent,
+	TimeoutOptions,
+} from "./DownloadTask";
+import { downloadStorage, JobRecord, StorageAdapter } from "./storage";
+import { RateLimiter } from "./rateLimiter";
+import { TabCoordinator } from "./tabCoordinator";
+import { mergeRetryPolicies, RetryPolicy } from "./retry";
+import { getFilenameFromUrl } from "./utils";
+import { CanceledError, QuotaError } from "./errors";
+import { ensurePersistence } from "./quota";
 
-export class DownloadManager {
+export interface DownloadManagerOptions {
+	/**
+	 * Storage used by every task this manager creates, unless a job
+	 * passes its own. Defaults to the shared IndexedDB `downloadStorage`.
+	 */
+	storage?: StorageAdapter;
+	/**
+	 * Let higher-priority jobs pause and requeue running lower-priority
+	 * tasks instead of waiting for a free slot.
+	 */
+	preemption?: boolean;
+	/**
+	 * Bandwidth cap in bytes per second shared by all tasks. Can be changed
+	 * later with setBandwidthLimit().
+	 */
+	maxBytesPerSecond?: number;
+	/**
+	 * Default retry policy for all jobs. A job's own `retryPolicy` is
+	 * merged over it field by field.
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * Headers, credentials and auth hooks for all jobs. A job's own
+	 * `request` options override these; headers are merged.
+	 */
+	request?: RequestOptions;
+	/**
+	 * Default timeouts for all jobs, merged under a job's own `timeouts`.
+	 */
+	timeouts?: TimeoutOptions;
+	/**
+	 * Let only one tab download a task at a time, with the others
+	 * mirroring it (see TabCoordinator). Defaults to true where the browser
+	 * has Web Locks and BroadcastChannel.
+	 */
+	coordinateTabs?: boolean;
+	/**
+	 * Ask the browser to keep the origin's storage persistent (see
+	 * `navigator.storage.persist()`) when the first job starts, so saved
+	 * chunks aren't evicted under storage pressure. Off by default, as some
+	 * browsers prompt the user.
+	 */
+	persistStorage?: boolean;
+}
+
+/** Options for download(): the task options plus how to queue it. */
+export interface DownloadOptions extends DownloadTaskOptions {
+	/** Defaults to the last segment of the URL's path. */
+	filename?: string;
+	/** Stable task id; generated when omitted. */
+	id?: string;
+	priority?: number;
+}
+
+// WorkerDownloadManager emits the same events with its own job and task types
+export interface DownloadManagerEvents<
+	Job = DownloadJob,
+	Task = DownloadTask,
+> {
+	jobCreated: Job;
+	jobStart: Job;
+	jobProgress: { job: Job; progress: JobProgress };
+	jobStateChange: { job: Job; state: DownloadJobState };
+	// The summary is available through job.getSummary()
+	jobComplete: Job;
+	taskStart: { job: Job; task: Task };
+	taskComplete: { job: Job; task: Task; blob: Blob };
+	taskError: { job: Job; task: Task; error: Error };
+	taskRetry: { job: Job; task: Task; retry: RetryEvent };
+	taskQuotaExceeded: { job: Job; task: Task; error: QuotaError };
+	// The job paused before starting, as its files don't fit
+	jobQuotaExceeded: { job: Job; error: QuotaError };
+	queueStart: void;
+	queuePause: void;
+	queueEmpty: void;
+}
+
+export class DownloadManager extends EventEmitter<DownloadManagerEvents> {
 	private jobs: DownloadJob[] = [];
 	private queue: DownloaderQueue;
+	private options: DownloadManagerOptions;
+	private rateLimiter: RateLimiter;
+	private coordinator: TabCoordinator | null;
+	// Serializes job writes so an older snapshot never lands after a newer one
+	private persistChain: Promise<void> = Promise.resolve();
 
-	constructor(concurrency = 2) {
-		this.queue = new DownloaderQueue(concurrency);
-
-		// Ensure proper cleanup on page unload
-		window.addEventListener("beforeunload", () => {
-			this.pauseAll();
+	constructor(concurrency = 2, options: DownloadManagerOptions = {}) {
+		super();
+		this.queue = new DownloaderQueue(concurrency, {
+			preemption: options.preemption,
 		});
+		this.options = options;
+		this.rateLimiter = new RateLimiter(options.maxBytesPerSecond ?? null);
+		this.coordinator =
+			(options.coordinateTabs ?? true) && TabCoordinator.isSupported()
+				? new TabCoordinator()
+				: null;
+		this.attachQueueEvents();
+
+		// Ensure proper cleanup on page unload. Inside a worker the
+		// WorkerDownloadManager on the page does this.
+		if (typeof window !== "undefined") {
+			window.addEventListener("beforeunload", () => {
+				this.unload();
+			});
+		}
 	}
 
-	createJob(urls: string[], filenames: string[]): DownloadJob {
-		const job = new DownloadJob(urls, filenames);
-		this.jobs.push(job);
+	/**
+	 * `taskIds` optionally gives each task a stable id of your own
+	 * (generated otherwise). Persisted state is keyed by task id.
+	 * A `urls` entry may list mirrors after the URL: `[url, ...mirrors]`.
+	 * `id` likewise sets the job's id.
+	 */
+	createJob(
+		urls: (string | string[])[],
+		filenames: string[],
+		options: DownloadTaskOptions = {},
+		taskIds: string[] = [],
+		id?: string,
+	): DownloadJob {
+		const job = new DownloadJob(
+			urls,
+			filenames,
+			{
+				storage: this.options.storage,
+				rateLimiter: this.rateLimiter,
+				coordinator: this.coordinator ?? undefined,
+				...options,
+				retryPolicy: mergeRetryPolicies(
+					this.options.retryPolicy,
+					options.retryPolicy,
+				),
+				request: mergeRequestOptions(this.options.request, options.request),
+				timeouts: { ...this.options.timeouts, ...options.timeouts },
+			},
+			id,
+			undefined,
+			taskIds,
+		);
+		this.trackJob(job);
+		this.emit("jobCreated", job);
 		return job;
 	}
 
-	startJob(job: DownloadJob) {
-		job.tasks.forEach((task) => {
-			// Only add if it's not already in progress or queued
-			if (task.state === "idle" || task.state === "paused") {
-				this.queue.add(task);
+	/**
+	 * Downloads one file as a job of its own and resolves with the result.
+	 * Rejects with the DownloaderError that stopped it, or a CanceledError,
+	 * e.g. when `options.signal` aborts. `url` may list mirrors after it.
+	 */
+	download(
+		url: string | string[],
+		options: DownloadOptions = {},
+	): Promise<Blob> {
+		if (options.signal?.aborted) {
+			return Promise.reject(new CanceledError());
+		}
+		const { filename, id, priority, ...taskOptions } = options;
+		const primary = Array.isArray(url) ? url[0] : url;
+		const job = this.createJob(
+			[url],
+			[filename ?? getFilenameFromUrl(primary)],
+			taskOptions,
+			id ? [id] : [],
+		);
+		const result = job.tasks[0].done();
+		this.startJob(job, priority);
+		return result;
+	}
+
+	/**
+	 * Rebuilds the jobs persisted before a page reload. Interrupted tasks
+	 * come back "paused" with their saved progress and queued ones "idle";
+	 * pass the job to startJob() to continue both. `options` is merged over
+	 * the stored job options, for anything that can't be persisted.
+	 *
+	 * A job is persisted to its tasks' storage, so jobs created with their
+	 * own `storage` are only found when it is passed as `options.storage`.
+	 * Jobs from the manager's storage are restored as well, each with the
+	 * storage it was found in.
+	 */
+	async restore(options: DownloadTaskOptions = {}): Promise<DownloadJob[]> {
+		const { storage, ...overrides } = options;
+		const sources = new Set([this.getStorage(), storage ?? this.getStorage()]);
+		const records: [JobRecord, StorageAdapter][] = [];
+		for (const source of sources) {
+			for (const record of await source.getJobs()) {
+				records.push([record, source]);
 			}
+		}
+		const restored: DownloadJob[] = [];
+
+		for (const [record, source] of records) {
+			// Already created or restored in this session
+			if (this.jobs.some((job) => job.id === record.id)) continue;
+
+			const job = new DownloadJob(
+				record.tasks.map((t) => (t.mirrors ? [t.url, ...t.mirrors] : t.url)),
+				record.tasks.map((t) => t.filename),
+				{
+					rateLimiter: this.rateLimiter,
+					coordinator: this.coordinator ?? undefined,
+					...record.options,
+					...overrides,
+					storage: source,
+					retryPolicy: mergeRetryPolicies(
+						this.options.retryPolicy,
+						record.options.retryPolicy,
+						overrides.retryPolicy,
+					),
+					request: mergeRequestOptions(
+						this.options.request,
+						record.options.request,
+						overrides.request,
+					),
+					timeouts: {
+						...this.options.timeouts,
+						...record.options.timeouts,
+						...overrides.timeouts,
+					},
+				},
+				record.id,
+				record.createdAt,
+				record.tasks.map((t) => t.id),
+			);
+			await Promise.all(
+				job.tasks.map((task, i) =>
+					task.rehydrate(
+						record.tasks[i].state,
+						record.tasks[i].totalBytes,
+						record.tasks[i].elapsed,
+					),
+				),
+			);
+			job.restoreElapsed(record.elapsed ?? 0);
+
+			this.trackJob(job);
+			restored.push(job);
+		}
+		return restored;
+	}
+
+	/**
+	 * Without `priority`, tasks keep any priority set earlier through
+	 * setJobPriority(), or 0. The tasks are queued once job.checkQuota()
+	 * finds that the whole job fits; otherwise the job pauses.
+	 */
+	startJob(job: DownloadJob, priority?: number) {
+		if (this.options.persistStorage) ensurePersistence();
+		job.checkQuota().then((fits) => {
+			if (fits) this.enqueueJob(job, priority);
 		});
-		this.queue.start();
+	}
+
+	setJobPriority(job: DownloadJob, priority: number) {
+		job.tasks.forEach((task) => this.queue.setPriority(task, priority));
+	}
+
+	/**
+	 * Moves the job's waiting tasks to the head of the queue, keeping their
+	 * order, so they start next.
+	 */
+	moveJobToFront(job: DownloadJob) {
+		[...job.tasks].reverse().forEach((task) => this.queue.moveToFront(task));
+	}
+
+	moveJobToBack(job: DownloadJob) {
+		job.tasks.forEach((task) => this.queue.moveToBack(task));
 	}
 
 	pauseJob(job: DownloadJob) {
-		job.tasks.forEach((task) => task.pause());
+		job.pause();
 	}
 
 	resumeJob(job: DownloadJob) {
-		job.tasks.forEach((task) => {
-			// Only resume a paused task
-			if (task.state === "paused") {
-				this.queue.add(task);
-			}
-		});
-		this.queue.start();
+		job.resume();
 	}
 
 	cancelJob(job: DownloadJob) {
-		job.tasks.forEach((task) => task.cancel());
+		job.cancel();
+	}
+
+	retryFailedJob(job: DownloadJob) {
+		job.retryFailed();
+	}
+
+	getBandwidthLimit(): number | null {
+		return this.rateLimiter.getLimit();
+	}
+
+	/**
+	 * Sets the manager-wide cap in bytes per second, or removes it with
+	 * `null`. Running tasks pick it up from their next chunk request.
+	 * Per-task caps are set with `task.setBandwidthLimit()`.
+	 */
+	setBandwidthLimit(bytesPerSecond: number | null) {
+		this.rateLimiter.setLimit(bytesPerSecond);
 	}
 
 	pauseAll() {
@@ -55,4 +322,118 @@ export class DownloadManager {
 	resumeAll() {
 		this.queue.start();
 	}
+
+	/**
+	 * Pauses everything before the page goes away, like pauseAll(). Other
+	 * tabs observing this one's downloads take them over and continue them,
+	 * rather than showing them paused.
+	 */
+	unload() {
+		this.coordinator?.leave();
+		this.pauseAll();
+	}
+
+	private enqueueJob(job: DownloadJob, priority?: number) {
+		job.tasks.forEach((task) => {
+			// Only add if it's not already in progress or queued
+			if (task.state === "idle" || task.state === "paused") {
+				this.queue.add(task, priority);
+			}
+		});
+		this.queue.start();
+	}
+
+	private getStorage(): StorageAdapter {
+		return this.options.storage ?? downloadStorage;
+	}
+
+	/**
+	 * Keeps the job's persisted record in sync with its tasks' states.
+	 */
+	private trackJob(job: DownloadJob) {
+		this.jobs.push(job);
+		job.setScheduler({
+			enqueue: (tasks) => {
+				tasks.forEach((task) => this.queue.add(task));
+				this.queue.start();
+			},
+			dequeue: (tasks) => tasks.forEach((task) => this.queue.remove(task)),
+		});
+		this.attachJobEvents(job);
+		job.tasks.forEach((task) =>
+			task.on("stateChange", () => this.persistJob(job)),
+		);
+		this.persistJob(job);
+	}
+
+	private attachJobEvents(job: DownloadJob) {
+		job.on("start", () => this.emit("jobStart", job));
+		job.on("progress", (progress) =>
+			this.emit("jobProgress", { job, progress }),
+		);
+		job.on("stateChange", (state) =>
+			this.emit("jobStateChange", { job, state }),
+		);
+		job.on("complete", () => this.emit("jobComplete", job));
+		job.on("taskStart", (task) => this.emit("taskStart", { job, task }));
+		job.on("taskComplete", ({ task, blob }) =>
+			this.emit("taskComplete", { job, task, blob }),
+		);
+		job.on("taskError", ({ task, error }) =>
+			this.emit("taskError", { job, task, error }),
+		);
+		job.on("taskRetry", ({ task, retry }) =>
+			this.emit("taskRetry", { job, task, retry }),
+		);
+		job.on("taskQuotaExceeded", ({ task, error }) =>
+			this.emit("taskQuotaExceeded", { job, task, error }),
+		);
+		job.on("quotaExceeded", (error) =>
+			this.emit("jobQuotaExceeded", { job, error }),
+		);
+	}
+
+	private attachQueueEvents() {
+		this.queue.on("start", () => this.emit("queueStart"));
+		this.queue.on("pause", () => this.emit("queuePause"));
+		this.queue.on("empty", () => this.emit("queueEmpty"));
+	}
+
+	private persistJob(job: DownloadJob) {
+		const storage = job.options.storage ?? downloadStorage;
+
+		this.persistChain = this.persistChain.then(async () => {
+			// Nothing left to restore once every task is done or canceled
+			const finished = job.tasks.every(
+				(t) => t.state === "completed" || t.state === "canceled",
+			);
+			try {
+				if (finished) {
+					await storage.clearJob(job.id);
+				} else {
+					await storage.saveJob(job.toRecord());
+				}
+			} catch (err) {
+				console.warn("DownloadManager: Failed to persist job.", err);
+			}
+		});
+	}
+}
+
+/**
+ * Later options win, except that headers are merged.
+ */
+function mergeRequestOptions(
+	...options: (RequestOptions | undefined)[]
+): RequestOptions {
+	let merged: RequestOptions = {};
+	for (const option of options) {
+		if (!option) continue;
+		merged = {
+			...merged,
+			...option,
+			headers: { ...merged.headers, ...option.headers },
+		};
+	}
+	return merged;
 }
@@ -1,6 +1,46 @@
-import { EventEmitter } from "./events";
-import { calculatePercent, isOnline } from "./utils";
-import { downloadStorage } from "./storage";
+import { EmitArgs, EventEmitter } from "./events";
+import { calculateEta, calculatePercent, generateId, isOnline } from "./utils";
+import {
+  downloadStorage,
+  StorageAdapter,
+  TaskChunk,
+  TaskMetadata,
+} from "./storage";
+import { RateLimiter } from "./rateLimiter";
+import { SpeedMeter } from "./speedMeter";
+import {
+  getRetryDelay,
+  isRetryable,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  RetryPolicy,
+} from "./retry";
+import {
+  createHasher,
+  digestsEqual,
+  ExpectedDigest,
+  Hasher,
+  hashBlob,
+  parseDigest,
+  readDigestHeader,
+  toHex,
+} from "./hash";
+import {
+  Transport,
+  TransportHandlers,
+  TransportHandle,
+  TransportRequest,
+  TransportResponse,
+  XhrTransport,
+} from "./transport";
+import { FetchTransport } from "./fetchTransport";
+import { getReservedSpace, releaseSpace, reserveSpace } from "./quota";
+import {
+  TabCoordinator,
+  TaskClaim,
+  TaskRole,
+  TaskUpdate,
+} from "./tabCoordinator";
 // Import the new errors
 import {
   DownloaderError,
@@ -9,6 +49,9 @@ import {
   UnsupportedServerError,
   AssemblyError,
   QuotaError,
+  IntegrityError,
+  TimeoutError,
+  CanceledError,
 } from "./errors";
 
 export type DownloadTaskState =
@@ -25,463 +68,2278 @@ export interface DownloadTaskProgress {
   loaded: number;
   total: number;
   percent: number;
+  speed: number; // Bytes per second over the last second
+  averageSpeed: number; // Bytes per second over the last ten seconds
+  eta: number | null; // Seconds remaining at averageSpeed, null if unknown
+  elapsed: number; // Active time in ms, excluding time spent paused
 }
 
-// --- Dynamic Chunk Size Constants (UPDATED) ---
-const DEFAULT_CHUNK_SIZE = 1024 * 1024 * 10; // 5MB (min/fallback)
-const MAX_CHUNK_SIZE = 1024 * 1024 * 100; // 100MB (max)
-const TARGET_CHUNK_COUNT = 50; // Aim for 100 chunks
+export interface DownloadTaskOptions {
+  /**
+   * Number of chunk ranges fetched in parallel. Only used when the server
+   * supports Range requests and the total size is known. Defaults to 1.
+   */
+  connections?: number;
+  /**
+   * How long one chunk request should take, in seconds. Chunk sizes adapt
+   * to the measured throughput to match it. Defaults to 10.
+   */
+  targetChunkSeconds?: number;
+  /**
+   * Where metadata and chunk data are stored. Defaults to the shared
+   * IndexedDB `downloadStorage`. Use an `OPFSStorage` for multi-GB files
+   * so the result never has to be built in memory.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Expected digest of the whole file, checked before "complete" fires.
+   * Accepts "sha256-<base64>", "sha-256=<base64>" or a bare hex string
+   * (SHA-256, SHA-1 or MD5, inferred from its length). When omitted, a
+   * `Repr-Digest`, `Digest` or `Content-MD5` header from the server is used.
+   */
+  expectedDigest?: string;
+  /**
+   * Before downloading, check that the rest of the file fits in the free
+   * space the storage reports, and pause with a QuotaError if it doesn't.
+   * Defaults to true; only storages with getAvailableSpace() are checked.
+   */
+  checkQuota?: boolean;
+  /**
+   * Per-task bandwidth cap in bytes per second. Can be changed later with
+   * setBandwidthLimit().
+   */
+  maxBytesPerSecond?: number;
+  /**
+   * Shared limiter applied in addition to the per-task cap, e.g. the
+   * DownloadManager's manager-wide one.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * When and how often failed chunk requests are retried. Unset fields
+   * fall back to `DEFAULT_RETRY_POLICY`.
+   */
+  retryPolicy?: RetryPolicy;
+  /** Headers, credentials and auth hooks for every request. */
+  request?: RequestOptions;
+  /**
+   * Returns a fresh URL for the same file, e.g. a newly signed one. Called
+   * when a chunk fails with 403 or 410, before any request once `urlTtl`
+   * has passed, and before the first request after a page reload. The
+   * download continues from the same offset.
+   */
+  resolveUrl?: (task: DownloadTask) => string | Promise<string>;
+  /** How long a URL stays valid, in ms. Only used with `resolveUrl`. */
+  urlTtl?: number;
+  /**
+   * Other URLs serving the same file, tried in order after `url`. They
+   * must report the same size (and ETag, when both send one). Parallel
+   * chunks are spread across them; a mirror that keeps failing is dropped.
+   */
+  mirrors?: string[];
+  /** Request timeouts in ms; see TimeoutOptions. */
+  timeouts?: TimeoutOptions;
+  /** Cancels the task when aborted. */
+  signal?: AbortSignal;
+  /**
+   * Sends the requests. Defaults to an `XhrTransport`, or a
+   * `FetchTransport` where XMLHttpRequest doesn't exist (workers, Node).
+   * With a streaming transport like `FetchTransport`, bytes received
+   * before a request breaks off are kept.
+   */
+  transport?: Transport;
+  /**
+   * Shares the task with other tabs: only one tab downloads it, the others
+   * mirror its events. See TabCoordinator.
+   */
+  coordinator?: TabCoordinator;
+}
+
+export interface StartOptions {
+  /** Cancels the task when aborted. */
+  signal?: AbortSignal;
+}
+
+/** Timeouts in ms. 0 turns one off. */
+export interface TimeoutOptions {
+  /** Time until a chunk response's headers arrive. Defaults to 30000. */
+  connect?: number;
+  /** Time for a whole HEAD or probe request. Defaults to 30000. */
+  metadata?: number;
+  /** Time a chunk response may go without new bytes. Defaults to 30000. */
+  stall?: number;
+}
+
+export interface RequestOptions {
+  /** Sent with every metadata and chunk request. */
+  headers?: Record<string, string>;
+  /** Send cookies and HTTP auth with cross-origin requests. */
+  withCredentials?: boolean;
+  /**
+   * Runs before every request; its headers are merged over `headers`.
+   * Use it for bearer tokens that may expire mid-download.
+   */
+  getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+  /**
+   * Called when a chunk request gets 401 Unauthorized. The chunk is then
+   * retried once (with fresh getHeaders()) before the HttpError surfaces.
+   */
+  refreshToken?: () => Promise<void>;
+}
+
+/** Validators identifying a specific version of the remote file. */
+export interface RemoteValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export interface DownloadTaskEvents {
+  start: void;
+  pause: void;
+  resume: void;
+  cancel: void;
+  networkLost: void;
+  remoteChanged: { previous: RemoteValidators; current: RemoteValidators };
+  progress: DownloadTaskProgress;
+  // A File when the storage adapter is file-backed
+  complete: Blob;
+  error: Error;
+  stateChange: DownloadTaskState;
+  retry: RetryEvent;
+  // A chunk response stopped sending data; it is aborted and retried
+  stalled: StalledEvent;
+  mirrorDisabled: { url: string; status: MirrorStatus; reason: string };
+  // Saved chunks found missing or of the wrong size, to be fetched again
+  repair: { chunks: number[] };
+  // Paused for lack of space; resume() once space is freed
+  quotaExceeded: QuotaError;
+}
+
+export interface RetryEvent {
+  chunk: number;
+  attempt: number; // The upcoming attempt, 2 for the first retry
+  maxAttempts: number;
+  delay: number; // ms until the attempt
+  error: Error;
+}
+
+export interface StalledEvent {
+  chunk: number;
+  url: string;
+  received: number; // Bytes of the chunk received before it stalled
+  idle: number; // ms without new bytes
+}
 
-export class DownloadTask extends EventEmitter {
+export type MirrorStatus =
+  | "ok"
+  | "failed" // Retries exhausted or a non-retryable error
+  | "mismatch"; // Reported a different size or ETag
+
+/** How a mirror fared in this session, from getMirrorDiagnostics(). */
+export interface MirrorDiagnostics {
   url: string;
+  status: MirrorStatus;
+  reason?: string;
+  chunks: number[]; // Chunks it served
+}
+
+/** A single in-flight chunk request and the bytes it has received so far. */
+interface ChunkRequest {
+  handle: TransportHandle | null; // null until it is sent
+  response: TransportResponse | null; // Once the headers arrived
+  mirror: number; // Index into the task's mirrors, 0 being `url`
+  loaded: number;
+  // Streamed bytes not saved yet, and how many were saved as partial chunks
+  buffer: Uint8Array<ArrayBuffer>[];
+  buffered: number;
+  saved: number;
+  reserved: number; // Bytes charged to the bandwidth limiters up front
+  startedAt: number; // When it was sent, for the throughput measurement
+  watchdog: ReturnType<typeof setTimeout> | null; // Connect or stall timer
+  tokenGeneration: number; // Token refreshes finished before it was sent
+  urlGeneration: number; // Likewise for URLs from resolveUrl()
+}
+
+// --- Adaptive Chunk Size Constants ---
+const MIN_CHUNK_SIZE = 1024 * 256; // 256KB
+const INITIAL_CHUNK_SIZE = 1024 * 1024 * 4; // 4MB, until throughput is known
+const MAX_CHUNK_SIZE = 1024 * 1024 * 100; // 100MB (max)
+const TARGET_CHUNK_COUNT = 50; // Small files start with smaller chunks
+const DEFAULT_TARGET_CHUNK_SECONDS = 10;
+const THROUGHPUT_SMOOTHING = 0.3; // Weight of the newest sample
+// When throttled, chunks hold about this many seconds of data so
+// requests are paced smoothly instead of arriving in large bursts.
+const THROTTLED_CHUNK_SECONDS = 1;
+// Rounds of re-fetching damaged chunks before assembly gives up
+const MAX_REPAIR_ATTEMPTS = 3;
+// A streaming request saves what it has received once it holds this much
+const PARTIAL_CHUNK_SIZE = 1024 * 1024 * 8; // 8MB
+
+const DEFAULT_TIMEOUTS: Required<TimeoutOptions> = {
+  connect: 30000,
+  metadata: 30000,
+  stall: 30000,
+};
+
+export class DownloadTask extends EventEmitter<DownloadTaskEvents> {
+  // Stable identity; all persisted state is keyed by it, not by URL,
+  // so two tasks may share a URL.
+  id: string;
+  url: string; // What is requested, replaced by resolveUrl()
+  readonly sourceUrl: string; // As created; persisted instead of `url`
   filename: string;
   state: DownloadTaskState = "idle";
-  private xhr: XMLHttpRequest | null = null;
+  connections: number;
+  private storage: StorageAdapter;
   private downloadedBytes = 0;
   private totalBytes = 0;
   private supportsResume = false;
-  private chunkIndex = 0;
-  private chunkSize = DEFAULT_CHUNK_SIZE; // Default, will be updated
-  private retryCount = 0;
-  private maxRetries = 3;
-  private retryDelay = 1000;
-
-  constructor(url: string, filename: string) {
+  private chunkSize = INITIAL_CHUNK_SIZE; // Size of the next chunk to plan
+  private targetChunkSeconds: number;
+  private throughput: number | null = null; // Bytes/sec per connection
+  private retryPolicy: Required<RetryPolicy>;
+
+  // --- Segment Tracking ---
+  // Chunks are planned as the download goes, each with the chunk size of
+  // that moment, so a chunk's bytes can't be derived from its index.
+  private chunkRanges: [number, number][] = []; // Index -> [start, end]
+  private nextOffset = 0; // First byte not covered by a planned chunk
+  // Chunk index -> in-flight request. A chunk is "pending" when it is
+  // neither in flight nor completed.
+  private activeRequests: Map<number, ChunkRequest> = new Map();
+  private completedChunks: Set<number> = new Set();
+  private completedBytes = 0; // Bytes of all saved chunks
+  private retryCounts: Map<number, number> = new Map(); // Per-chunk retries
+  private retryAt: Map<number, number> = new Map(); // Chunk -> earliest retry time
+  private repairAttempts = 0; // Since the last start()
+  private result: Promise<Blob> | null = null; // Settles with the current run
+
+  // --- Request Customization ---
+  private requestOptions: RequestOptions;
+  private authRetried: Set<number> = new Set(); // Chunks retried after a 401
+  private tokenRefresh: Promise<void> | null = null; // Shared by parallel 401s
+  private tokenGeneration = 0; // Token refreshes finished
+
+  // --- Refreshable URLs ---
+  private resolveUrl: DownloadTaskOptions["resolveUrl"] | null;
+  private urlTtl: number | null;
+  // null: age unknown, so resolved before the next request
+  private urlResolvedAt: number | null = Date.now();
+  private urlRetried: Set<number> = new Set(); // Chunks retried after 403/410
+  private urlRefresh: Promise<void> | null = null; // Shared by parallel 403s
+  private urlGeneration = 0; // URLs resolved
+
+  // --- Mirrors ---
+  // Mirror indexes: 0 is always `url` (which resolveUrl may replace),
+  // 1 and up are `mirrors`, in order.
+  readonly mirrors: string[];
+  private mirrorStates: { status: MirrorStatus; reason?: string }[];
+  private validatorSource = 0; // Mirror whose ETag/size the others must match
+  private validatorsKnown = false; // Taken from the first response only
+  private chunkSources: Map<number, number> = new Map(); // Chunk -> mirror
+
+  // --- Remote Validators (used for If-Range) ---
+  private etag: string | null = null;
+  private lastModified: string | null = null;
+
+  // --- Integrity ---
+  private checksQuota: boolean;
+  private quotaPause: QuotaError | null = null; // Cleared once not paused
+  private requestedDigest: string | null; // From options, survives restarts
+  private expectedDigest: string | null;
+  // Running hash over the bytes hashed so far. null means "hash everything
+  // at the end", e.g. after a resume where earlier chunks aren't in memory.
+  private hasher: Hasher | null = null;
+  private hashedBytes = 0;
+  private pendingHashChunks: Map<number, Blob> = new Map(); // start byte -> chunk
+  private hashChain: Promise<void> = Promise.resolve();
+
+  // --- Bandwidth ---
+  private rateLimiter: RateLimiter; // Per-task cap
+  private sharedRateLimiter: RateLimiter | null;
+  private timeouts: Required<TimeoutOptions>;
+  private transport: Transport;
+  private throttleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // --- Speed / ETA ---
+  private speedMeter = new SpeedMeter();
+
+  // --- Tabs ---
+  private coordinator: TabCoordinator | null;
+  private claim: TaskClaim | null = null; // Held from start until the end
+  // Progress of the tab that owns the task, while this one observes it
+  private observedProgress: DownloadTaskProgress | null = null;
+
+  constructor(
+    url: string,
+    filename: string,
+    options: DownloadTaskOptions = {},
+    id = generateId(),
+  ) {
     super();
+    this.id = id;
     this.url = url;
+    this.sourceUrl = url;
     this.filename = filename;
+    this.connections = Math.max(1, Math.floor(options.connections ?? 1));
+    this.targetChunkSeconds =
+      options.targetChunkSeconds ?? DEFAULT_TARGET_CHUNK_SECONDS;
+    this.storage = options.storage ?? downloadStorage;
+    this.checksQuota = options.checkQuota ?? true;
+    this.requestedDigest = options.expectedDigest ?? null;
+    this.expectedDigest = this.requestedDigest;
+    this.rateLimiter = new RateLimiter(options.maxBytesPerSecond ?? null);
+    this.sharedRateLimiter = options.rateLimiter ?? null;
+    this.retryPolicy = resolveRetryPolicy(options.retryPolicy);
+    this.requestOptions = options.request ?? {};
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
+    this.transport =
+      options.transport ??
+      (typeof XMLHttpRequest !== "undefined"
+        ? new XhrTransport()
+        : new FetchTransport());
+    if (options.signal) {
+      this.bindSignal(options.signal, false);
+    }
+    this.coordinator = options.coordinator ?? null;
+    this.resolveUrl = options.resolveUrl ?? null;
+    this.urlTtl = options.urlTtl ?? null;
+    this.mirrors = options.mirrors ?? [];
+    this.mirrorStates = [url, ...this.mirrors].map(() => ({ status: "ok" }));
+
+    if (this.expectedDigest && !parseDigest(this.expectedDigest)) {
+      throw new DownloaderError(
+        `Unrecognized digest format: "${this.expectedDigest}"`,
+      );
+    }
+  }
+
+  /**
+   * Starts or continues the download. Resolves with the file once it is
+   * assembled and rejects with the DownloaderError that stopped it, or a
+   * CanceledError, just like done().
+   */
+  start(options: StartOptions = {}): Promise<Blob> {
+    const result = this.done();
+    if (options.signal?.aborted) {
+      this.cancel();
+      return result;
+    }
+    if (options.signal) {
+      this.bindSignal(options.signal, true);
+    }
+
+    this.run();
+    return result;
+  }
+
+  /**
+   * "observer" while another tab owns the download. Its state and events
+   * are then the owner's, and pause(), resume() and the like do nothing.
+   */
+  get role(): TaskRole | null {
+    return this.claim?.role ?? null;
+  }
+
+  /** The QuotaError the task is paused for, or null. */
+  get quotaError(): QuotaError | null {
+    return this.quotaPause;
+  }
+
+  /**
+   * The file's size in bytes, or 0 if the server doesn't tell. Before the
+   * task has started, it comes from the saved metadata or, failing that,
+   * a HEAD request; the task stays idle. Used by DownloadJob.checkQuota().
+   */
+  async fetchSize(): Promise<number> {
+    if (this.totalBytes > 0 || this.state !== "idle") return this.totalBytes;
+
+    const metadata = await this.storage.getMetadata(this.id);
+    if (metadata) return metadata.totalBytes;
+    try {
+      await this.fetchMetadataFromMirrors();
+    } catch {
+      // Unknown until the download starts; each mirror's failure is logged
+    }
+    return this.totalBytes;
+  }
+
+  emit<K extends keyof DownloadTaskEvents>(
+    event: K,
+    ...args: EmitArgs<DownloadTaskEvents[K]>
+  ): void {
+    super.emit(event, ...args);
+    if (this.claim?.role !== "owner") return;
+    this.claim.publish(event, args[0] as DownloadTaskEvents[K]);
+    if (event === "complete" || event === "error" || event === "cancel") {
+      this.releaseClaim();
+    }
+  }
+
+  /**
+   * Settles when the current run ends (or the next, if none is running):
+   * resolves with the file, or rejects with the DownloaderError that
+   * stopped it, or a CanceledError. Errors are emitted as events as well,
+   * so an ignored promise doesn't cause an unhandled rejection.
+   */
+  done(): Promise<Blob> {
+    if (this.result) return this.result;
+
+    const result = new Promise<Blob>((resolve, reject) => {
+      const settle = () => {
+        unsubscribe.forEach((off) => off());
+        this.result = null;
+      };
+      const unsubscribe = [
+        this.on("complete", (blob) => {
+          settle();
+          resolve(blob);
+        }),
+        this.on("error", (err) => {
+          settle();
+          reject(err);
+        }),
+        this.on("cancel", () => {
+          settle();
+          reject(new CanceledError());
+        }),
+      ];
+    });
+    result.catch(() => {});
+    this.result = result;
+    return result;
+  }
+
+  /**
+   * Cancels the task when `signal` aborts; with `untilDone`, only until
+   * the current run ends.
+   */
+  private bindSignal(signal: AbortSignal, untilDone: boolean) {
+    if (signal.aborted) {
+      this.cancel();
+      return;
+    }
+    const onAbort = () => this.cancel();
+    signal.addEventListener("abort", onAbort, { once: true });
+    if (untilDone) {
+      const release = () => signal.removeEventListener("abort", onAbort);
+      this.done().then(release, release);
+    }
+  }
+
+  /**
+   * Resolves with whether this tab owns the task. If another tab does,
+   * the task mirrors it from then on, until the download ends there or
+   * this tab takes over.
+   */
+  private claimTask(): Promise<boolean> {
+    if (this.claim) return Promise.resolve(this.claim.role === "owner");
+
+    let observed = false;
+    return new Promise((resolve) => {
+      this.claim = this.coordinator!.claim(this.id, {
+        onOwn: () => {
+          if (observed) {
+            this.takeOver();
+          } else {
+            this.observedProgress = null;
+            resolve(true);
+          }
+        },
+        onObserve: () => {
+          observed = true;
+          this.observedProgress = this.getProgress();
+          this.emit("start");
+          resolve(false);
+        },
+        onUpdate: (update) => this.applyUpdate(update),
+        getSnapshot: () => ({
+          state: this.state,
+          progress: this.getProgress(),
+        }),
+      });
+    });
+  }
+
+  private releaseClaim() {
+    this.claim?.release();
+    this.claim = null;
+  }
+
+  /** Mirrors an event of the task in the tab that owns it. */
+  private applyUpdate({ event, payload, state, progress }: TaskUpdate) {
+    const previous = this.state;
+    this.state = state;
+    this.observedProgress = progress;
+    if (event) {
+      this.emit(event, payload as never);
+    } else {
+      // The state when this tab joined
+      if (state !== previous) this.emit("stateChange", state);
+      if (state === "paused") this.emit("pause");
+      this.emitProgress();
+    }
+    if (event === "complete" || event === "error" || event === "cancel") {
+      this.releaseClaim();
+    }
   }
 
-  async start() {
+  /**
+   * Continues the download after the tab that owned it closed. A download
+   * paused there stays paused; one that was running goes on from the
+   * saved chunks.
+   */
+  private async takeOver() {
+    this.observedProgress = null;
+    if (this.state !== "paused") {
+      this.state = "idle";
+      this.run();
+      return;
+    }
+
+    const metadata = await this.storage.getMetadata(this.id);
+    if (metadata) {
+      this.applyMetadata(metadata);
+      this.emitProgress();
+    } else {
+      this.changeState("idle");
+    }
+  }
+
+  private run() {
+    this.begin().catch((err) => {
+      const error =
+        err instanceof DownloaderError ? err : new DownloaderError(err.message);
+      this.handleError(error);
+    });
+  }
+
+  private async begin() {
     if (this.state === "downloading" || this.state === "fetching_metadata") {
       return;
     }
+    if (this.coordinator && !(await this.claimTask())) {
+      return; // Another tab downloads it
+    }
+
+    // Give mirrors dropped in an earlier attempt another chance
+    this.resetMirrors();
+    this.repairAttempts = 0;
 
     // 1. Get metadata from IndexedDB
-    const metadata = await downloadStorage.getMetadata(this.url);
+    const metadata = await this.storage.getMetadata(this.id);
     if (metadata) {
       // --- Resuming Download ---
-      this.totalBytes = metadata.totalBytes;
-      this.downloadedBytes = metadata.downloadedBytes;
-      this.supportsResume = metadata.supportsResume;
-      this.chunkSize = metadata.chunkSize;
-      this.chunkIndex = Math.floor(this.downloadedBytes / this.chunkSize);
+      this.applyMetadata(metadata);
 
       this.emitProgress();
+      if (!(await this.checkQuota())) return;
       this.changeState("downloading");
       this.emit("start");
       this.downloadNextChunk();
     } else {
       // --- New Download: First, get metadata ---
       this.changeState("fetching_metadata");
+      await this.prepareNewDownload();
+      if (this.state === "canceled") return; // Canceled meanwhile
+      if (!(await this.checkQuota())) return;
+
+      this.emit("start");
+      this.downloadNextChunk();
+    }
+  }
+
+  /**
+   * Pauses with a QuotaError when the storage reports less free space than
+   * the rest of the file needs, after what other running tasks still have
+   * to store. Resolves with whether the download may go on.
+   */
+  private async checkQuota(): Promise<boolean> {
+    if (
+      !this.checksQuota ||
+      !this.storage.getAvailableSpace ||
+      this.totalBytes <= 0
+    ) {
+      return true;
+    }
+
+    const needed = this.totalBytes - this.completedBytes;
+    let available: number | null = null;
+    try {
+      available = await this.storage.getAvailableSpace();
+    } catch (err) {
+      console.warn("DownloadTask: Failed to estimate free space.", err);
+    }
+    if (available !== null) {
+      available = Math.max(0, available - getReservedSpace(this.id));
+      if (available < needed) {
+        this.pauseForQuota(
+          new QuotaError(
+            `Not enough storage: ${needed} bytes needed, ${available} available`,
+            needed,
+            available,
+          ),
+        );
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Pauses rather than failing, so the download continues from its saved
+   * chunks once the app has freed space and calls resume().
+   */
+  private pauseForQuota(error: QuotaError) {
+    // Set first, so "pause" listeners can tell why (see DownloaderQueue)
+    this.quotaPause = error;
+    if (this.state === "downloading") {
+      this.pause();
+    } else {
+      this.abortAllRequests();
+      this.changeState("paused");
+      this.emit("pause");
+    }
+    this.emit("quotaExceeded", error);
+  }
+
+  /**
+   * Restores a task persisted by DownloadManager after a page reload.
+   * Interrupted downloads come back "paused" with their stored progress,
+   * so resume() continues where they left off.
+   */
+  async rehydrate(
+    state: DownloadTaskState,
+    totalBytes: number,
+    elapsed = 0,
+  ) {
+    // Only the URL the task was created with is saved; a signed one
+    // resolved from it may have expired since
+    this.urlResolvedAt = null;
+
+    if (state === "completed") {
+      // Chunks are cleared on completion, so only the size is known
+      this.totalBytes = totalBytes;
+      this.downloadedBytes = totalBytes;
+      this.speedMeter = new SpeedMeter(elapsed);
+      this.emitProgress();
+      this.changeState("completed");
+      return;
+    }
+
+    const metadata = await this.storage.getMetadata(this.id);
+    if (metadata) {
+      this.applyMetadata(metadata);
+      this.emitProgress();
+    }
+
+    if (state === "error" || state === "canceled") {
+      this.changeState(state);
+    } else if (state !== "idle" && metadata) {
+      // Was downloading, paused or assembling when the page went away.
+      // Without metadata nothing was saved yet, so it stays "idle".
+      this.changeState("paused");
+    }
+  }
+
+  getProgress(): DownloadTaskProgress {
+    if (this.observedProgress) return this.observedProgress;
+    const averageSpeed = this.speedMeter.getAverageSpeed();
+    return {
+      loaded: this.downloadedBytes,
+      total: this.totalBytes,
+      percent: calculatePercent(this.downloadedBytes, this.totalBytes),
+      speed: this.speedMeter.getCurrentSpeed(),
+      averageSpeed,
+      eta:
+        this.totalBytes > 0
+          ? calculateEta(this.totalBytes - this.downloadedBytes, averageSpeed)
+          : null,
+      elapsed: this.speedMeter.getElapsed(),
+    };
+  }
+
+  /**
+   * Loads persisted metadata so the download can continue from it.
+   */
+  private applyMetadata(metadata: TaskMetadata) {
+    this.totalBytes = metadata.totalBytes;
+    this.supportsResume = metadata.supportsResume;
+    this.chunkSize = metadata.chunkSize;
+    this.expectedDigest ??= metadata.expectedDigest ?? null;
+    this.etag = metadata.etag ?? null;
+    this.lastModified = metadata.lastModified ?? null;
+    // Records without validators take them from the next response
+    this.validatorsKnown = !!(this.etag || this.lastModified);
+    // Only called while inactive, so no running interval is lost
+    this.speedMeter = new SpeedMeter(metadata.elapsed ?? 0);
+    this.restoreCompletedChunks(metadata);
+  }
+
+  /**
+   * Fetches fresh metadata and sets up chunking for a download from byte 0.
+   * Expects the state to already be "fetching_metadata".
+   */
+  private async prepareNewDownload() {
+    // Forget anything learned about a previous version of the file
+    this.totalBytes = 0;
+    this.supportsResume = false;
+    this.etag = null;
+    this.lastModified = null;
+    this.validatorsKnown = false;
+    this.expectedDigest = this.requestedDigest;
+
+    try {
+      await this.fetchMetadataFromMirrors();
+      // fetchMetadata will set this.totalBytes if successful
+    } catch (err) {
+      // HEAD request failed or not supported.
+      // We will proceed and try to get size from the first GET.
+      console.warn(
+        "HEAD request failed, falling back to GET for metadata.",
+        err.message,
+      );
+    }
+
+    if (this.state !== "fetching_metadata") return;
+
+    this.calculateChunkSize(); // Calculate based on totalBytes (even if 0)
+    this.resetSegments();
+
+    this.changeState("downloading");
+  }
+
+  /**
+   * Asks each mirror in order until one answers. Its validators are the
+   * ones every other mirror must match.
+   */
+  private async fetchMetadataFromMirrors() {
+    let lastError: Error = new NetworkError("No mirror answered");
+    for (let mirror = 0; mirror < this.mirrorStates.length; mirror++) {
       try {
-        await this.fetchMetadata();
-        // fetchMetadata will set this.totalBytes if successful
+        await this.fetchMetadata(mirror);
+        this.validatorSource = mirror;
+        return;
       } catch (err) {
-        // HEAD request failed or not supported.
-        // We will proceed and try to get size from the first GET.
         console.warn(
-          "HEAD request failed, falling back to GET for metadata.",
+          `Metadata request to ${this.getMirrorUrl(mirror)} failed.`,
           err.message,
         );
+        lastError = err;
       }
-
-      this.calculateChunkSize(); // Calculate based on totalBytes (even if 0)
-
-      this.changeState("downloading");
-      this.emit("start");
-      this.downloadNextChunk();
     }
+    throw lastError;
   }
 
   /**
    * Tries to get file metadata (Content-Length/Range) using HEAD.
    * Falls back to a "Probe" GET request (first byte) if HEAD fails.
    */
-  private fetchMetadata(): Promise<void> {
+  private async fetchMetadata(mirror = 0): Promise<void> {
+    if (!isOnline()) {
+      throw new NetworkError("Offline, cannot fetch metadata.");
+    }
+    const url = await this.getRequestUrl(mirror);
+    const headers = await this.getRequestHeaders();
+
     return new Promise((resolve, reject) => {
-      if (!isOnline()) {
-        return reject(new NetworkError("Offline, cannot fetch metadata."));
-      }
+      // Strategy 1: Try HEAD first (Fastest)
+      this.transport.send(
+        this.buildRequest("HEAD", url, headers, this.timeouts.metadata),
+        {
+          onLoad: (response) => {
+            if (response.status >= 200 && response.status < 300) {
+              this.handleMetadataSuccess(response);
+              resolve();
+            } else {
+              // HEAD failed (e.g. 405 Method Not Allowed).
+              // Switch to Strategy 2: Probe Request
+              console.warn("HEAD failed, trying Range Probe...");
+              this.fetchMetadataProbe(mirror).then(resolve).catch(reject);
+            }
+          },
+          onError: (error) => {
+            // A server too slow to answer HEAD won't answer the probe either
+            if (error instanceof TimeoutError) {
+              reject(
+                new TimeoutError(
+                  `HEAD got no response within ${this.timeouts.metadata}ms`,
+                ),
+              );
+              return;
+            }
+            // Network error on HEAD (could be CORS). Try Probe as backup.
+            console.warn("HEAD error, trying Range Probe...");
+            this.fetchMetadataProbe(mirror).then(resolve).catch(reject);
+          },
+        },
+      );
+    });
+  }
+
+  /**
+   * Sends a GET request for a single byte to "probe" the server capabilities.
+   */
+  private async fetchMetadataProbe(mirror = 0): Promise<void> {
+    const url = await this.getRequestUrl(mirror);
+    const headers = await this.getRequestHeaders();
+
+    return new Promise((resolve, reject) => {
+      // Request just the first byte
+      const request = this.buildRequest(
+        "GET",
+        url,
+        { ...headers, Range: "bytes=0-0" },
+        this.timeouts.metadata,
+      );
+      const probe = this.transport.send(request, {
+        // CRITICAL: Watch for headers to arrive so we can abort 200 OK immediately
+        onHeaders: (response) => {
+          if (response.status === 200) {
+            // Server ignored Range header and is sending the whole file!
+            // Abort immediately to prevent downloading 10GB.
+            console.warn("Server ignored Range (200 OK). Aborting probe.");
+            probe.abort();
+
+            // We know resume is NOT supported.
+            this.supportsResume = false;
+
+            // Try to get length from normal header
+            this.handleMetadataSuccess(response);
+
+            resolve(); // Resolve successfully (we just fall back to single-stream)
+          }
+        },
+
+        onLoad: (response) => {
+          // If we get here, it's likely a 206 Partial Content (Success)
+          if (response.status === 206) {
+            this.handleMetadataSuccess(response);
+            resolve();
+          } else {
+            // Any other status (404, 500, etc) is a real error
+            reject(new HttpError(response.status, response.statusText));
+          }
+        },
+
+        onError: (error) =>
+          reject(
+            error instanceof TimeoutError
+              ? new TimeoutError(
+                  `Probe got no response within ${this.timeouts.metadata}ms`,
+                )
+              : new NetworkError("Probe request failed"),
+          ),
+      });
+    });
+  }
+
+  /**
+   * Helper to extract data from a successful response (HEAD or 206 Probe)
+   */
+  private handleMetadataSuccess(response: TransportResponse) {
+    const length = response.getHeader("Content-Length");
+    if (length) {
+      this.totalBytes = parseInt(length, 10);
+    }
+
+    // If Content-Length was missing or misleading (common in Range responses),
+    // try Content-Range
+    const rangeTotal = this.tryParseTotalBytes(response);
+    if (rangeTotal > 0) {
+      this.totalBytes = rangeTotal;
+    }
+
+    // Check resume support
+    this.supportsResume =
+      response.status === 206 ||
+      response.getHeader("Accept-Ranges") === "bytes";
+
+    this.captureServerDigest(response);
+    this.etag = response.getHeader("ETag");
+    this.lastModified = response.getHeader("Last-Modified");
+    this.validatorsKnown = true;
+  }
+
+  /**
+   * Uses the server's whole-file digest header when the caller didn't
+   * supply one. Skipped for 206 responses, where Content-MD5 describes
+   * only the partial body.
+   */
+  private captureServerDigest(response: TransportResponse) {
+    if (this.expectedDigest || response.status === 206) return;
+
+    const header = readDigestHeader((name) => response.getHeader(name));
+    if (header) {
+      this.expectedDigest = header;
+    }
+  }
+
+  /**
+   * Value for the If-Range header. Only strong ETags are allowed there,
+   * so a weak one falls back to Last-Modified. Other mirrors only get the
+   * ETag, since each server stamps its own modification date.
+   */
+  private getIfRangeValidator(isSource = true): string | null {
+    if (this.etag && !this.etag.startsWith("W/")) return this.etag;
+    return isSource ? this.lastModified : null;
+  }
+
+  /**
+   * Why a mirror's chunk response doesn't match the file we are
+   * downloading, or null if it does.
+   */
+  private getMirrorMismatch(
+    response: TransportResponse,
+    startByte: number,
+  ): string | null {
+    if (response.status !== 200 && response.status !== 206) return null;
+
+    const etag = response.getHeader("ETag");
+    if (this.etag && etag) {
+      if (etag.replace(/^W\//, "") !== this.etag.replace(/^W\//, "")) {
+        return `ETag ${etag} differs from ${this.etag}`;
+      }
+    }
+
+    // Ignored our Range (or its If-Range didn't match)
+    if (this.supportsResume && response.status === 200) {
+      return "Answered a range request with the whole file";
+    }
+
+    let size = this.tryParseTotalBytes(response);
+    if (response.status === 200 && startByte === 0) {
+      size = parseInt(response.getHeader("Content-Length") ?? "", 10) || 0;
+    }
+    if (this.totalBytes > 0 && size > 0 && size !== this.totalBytes) {
+      return `Size ${size} differs from ${this.totalBytes}`;
+    }
+    return null;
+  }
+
+  /**
+   * Checks a chunk response's headers against the stored validators.
+   */
+  private hasRemoteChanged(
+    response: TransportResponse,
+    sentIfRange: boolean,
+  ): boolean {
+    if (response.status !== 200 && response.status !== 206) return false;
+
+    // With If-Range, a full 200 response means the validator didn't match
+    if (sentIfRange && response.status === 200) return true;
+
+    const etag = response.getHeader("ETag");
+    if (this.etag && etag) {
+      // Weak comparison: a compressing proxy may turn a strong ETag weak
+      return etag.replace(/^W\//, "") !== this.etag.replace(/^W\//, "");
+    }
+
+    const lastModified = response.getHeader("Last-Modified");
+    if (this.lastModified && lastModified) {
+      return lastModified !== this.lastModified;
+    }
+    return false;
+  }
+
+  /**
+   * The file on the server was replaced since our chunks were fetched.
+   * Stitching old and new bytes together would corrupt the file, so
+   * everything stored is discarded and the download starts over.
+   */
+  private async handleRemoteChange(response: TransportResponse) {
+    const previous: RemoteValidators = {
+      etag: this.etag,
+      lastModified: this.lastModified,
+    };
+    const current: RemoteValidators = {
+      etag: response.getHeader("ETag"),
+      lastModified: response.getHeader("Last-Modified"),
+    };
+
+    this.abortAllRequests();
+    // Stops retry timers and the loop from sending more requests
+    this.changeState("fetching_metadata");
+    this.emit("remoteChanged", { previous, current });
+
+    await this.storage.clearMetadata(this.id);
+    await this.storage.clearChunks(this.id);
+    if (this.state !== "fetching_metadata") return; // Canceled meanwhile
+
+    await this.prepareNewDownload();
+    this.emitProgress();
+    this.downloadNextChunk();
+  }
+
+  /**
+   * Sets the size of the first chunks, before any throughput has been
+   * measured. From then on adaptChunkSize() steers it.
+   */
+  private calculateChunkSize() {
+    this.throughput = null;
+    if (this.totalBytes <= 0) {
+      this.chunkSize = INITIAL_CHUNK_SIZE;
+      return;
+    }
+
+    const dynamicSize = Math.ceil(this.totalBytes / TARGET_CHUNK_COUNT);
+    this.chunkSize = Math.max(
+      MIN_CHUNK_SIZE,
+      Math.min(dynamicSize, INITIAL_CHUNK_SIZE),
+    );
+
+    console.log(`Chunk Size:${this.chunkSize / (1024 * 1024)}MB`);
+  }
+
+  /**
+   * Steers the chunk size towards `targetChunkSeconds` of transfer at the
+   * throughput measured per connection. It moves at most 2x per chunk, so
+   * one odd sample can't swing it far.
+   */
+  private adaptChunkSize(bytes: number, duration: number) {
+    // For tiny chunks the round-trip dominates, which says little
+    if (bytes < MIN_CHUNK_SIZE || duration <= 0) return;
+
+    const sample = (bytes / duration) * 1000;
+    this.throughput =
+      this.throughput === null
+        ? sample
+        : THROUGHPUT_SMOOTHING * sample +
+          (1 - THROUGHPUT_SMOOTHING) * this.throughput;
+
+    const target = this.throughput * this.targetChunkSeconds;
+    this.setChunkSize(
+      Math.min(this.chunkSize * 2, Math.max(this.chunkSize / 2, target)),
+    );
+  }
+
+  /** After a failure, smaller chunks lose less on the next one. */
+  private shrinkChunkSize() {
+    this.setChunkSize(this.chunkSize / 2);
+  }
+
+  private setChunkSize(size: number) {
+    this.chunkSize = Math.round(
+      Math.max(MIN_CHUNK_SIZE, Math.min(size, MAX_CHUNK_SIZE)),
+    );
+  }
+
+  /**
+   * Size for the next chunk to plan: the adaptive size, capped so that
+   * throttled requests stay short and the last chunks are spread over all
+   * connections instead of leaving one straggler.
+   */
+  private getNextChunkSize(): number {
+    let size = this.chunkSize;
+
+    const limit = this.getEffectiveBandwidthLimit();
+    if (limit !== null) {
+      size = Math.min(
+        size,
+        Math.max(MIN_CHUNK_SIZE, limit * THROTTLED_CHUNK_SECONDS),
+      );
+    }
+
+    if (this.totalBytes > 0) {
+      const remaining = this.totalBytes - this.nextOffset;
+      const idle = this.getConnectionLimit() - this.activeRequests.size;
+      const share = Math.ceil(remaining / Math.max(1, idle));
+      size = Math.min(size, Math.max(MIN_CHUNK_SIZE, share));
+      // Don't leave a sliver behind for a request of its own
+      if (remaining - size < MIN_CHUNK_SIZE) size = remaining;
+    }
+    return size;
+  }
+
+  /** Adds a chunk starting at the first unplanned byte. */
+  private planChunk(): number {
+    const size = this.getNextChunkSize();
+    this.chunkRanges.push([this.nextOffset, this.nextOffset + size - 1]);
+    this.nextOffset += size;
+    return this.chunkRanges.length - 1;
+  }
+
+  /**
+   * Cuts a failed chunk down to the current chunk size before it is
+   * requested again. The rest becomes a chunk of its own.
+   */
+  private splitChunk(index: number) {
+    if (!this.supportsResume || this.totalBytes <= 0) return;
+
+    const [startByte, endByte] = this.getChunkRange(index);
+    if (endByte - startByte + 1 < this.chunkSize + MIN_CHUNK_SIZE) return;
+
+    const splitAt = startByte + this.chunkSize;
+    this.chunkRanges[index] = [startByte, splitAt - 1];
+    this.chunkRanges.push([splitAt, endByte]);
+  }
+
+  /**
+   * Rebuilds the chunk layout and completed-chunk set from persisted
+   * metadata. Older records only stored `downloadedBytes`, which implies
+   * that every chunk before it was saved in order, and had chunks of one
+   * fixed `chunkSize`.
+   */
+  private restoreCompletedChunks(metadata: TaskMetadata) {
+    this.resetSegments();
+
+    const indices =
+      metadata.completedChunks ??
+      Array.from(
+        { length: Math.floor(metadata.downloadedBytes / this.chunkSize) },
+        (_, i) => i,
+      );
+
+    if (metadata.chunkRanges) {
+      this.chunkRanges = metadata.chunkRanges.map(([start, end]) => [
+        start,
+        end,
+      ]);
+    } else {
+      const chunkCount =
+        this.totalBytes > 0
+          ? Math.ceil(this.totalBytes / this.chunkSize)
+          : Math.max(-1, ...indices) + 1;
+      this.chunkRanges = Array.from({ length: chunkCount }, (_, i) => [
+        i * this.chunkSize,
+        (i + 1) * this.chunkSize - 1,
+      ]);
+    }
+    this.nextOffset = this.chunkRanges.reduce(
+      (next, [, end]) => Math.max(next, end + 1),
+      0,
+    );
+
+    for (const index of indices) {
+      this.completedChunks.add(index);
+      this.completedBytes += this.getChunkLength(index);
+    }
+    this.downloadedBytes = this.completedBytes;
+
+    // Earlier chunks are only in storage, so hash the whole file at the end.
+    if (this.completedBytes > 0) {
+      this.hasher = null;
+    }
+  }
+
+  /**
+   * Completed chunks whose stored data doesn't match the chunk layout:
+   * missing from storage, or saved with the wrong offset or length.
+   */
+  private findDamagedChunks(chunks: TaskChunk[]): number[] {
+    const stored = new Map(chunks.map((chunk) => [chunk.index, chunk]));
+    return [...this.completedChunks]
+      .filter((index) => {
+        const chunk = stored.get(index);
+        return (
+          !chunk ||
+          // Chunks saved before offsets were stored (and migrated ones)
+          // have none; their size is still checked
+          (chunk.offset !== undefined &&
+            chunk.offset !== this.getChunkRange(index)[0]) ||
+          chunk.blob.size !== this.getChunkLength(index)
+        );
+      })
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * For file-backed storage only the file size can be checked: completed
+   * chunks reaching past the end of the file were never fully written.
+   */
+  private findDamagedFileChunks(file: Blob): number[] {
+    return [...this.completedChunks]
+      .filter((index) => this.getChunkRange(index)[1] >= file.size)
+      .sort((a, b) => a - b);
+  }
+
+  /** Whether every byte of the file belongs to a completed chunk. */
+  private isLayoutComplete(): boolean {
+    return (
+      this.completedChunks.size === this.chunkRanges.length &&
+      this.nextOffset >= this.totalBytes
+    );
+  }
+
+  /**
+   * Marks chunks as not downloaded, so the loop fetches them again, and
+   * persists that.
+   */
+  private async forgetChunks(indices: number[]) {
+    for (const index of indices) {
+      this.completedChunks.delete(index);
+      this.chunkSources.delete(index);
+      this.retryCounts.delete(index);
+      this.retryAt.delete(index);
+    }
+    this.completedBytes = 0;
+    for (const index of this.completedChunks) {
+      this.completedBytes += this.getChunkLength(index);
+    }
+    this.updateDownloadedBytes();
+
+    // The running hash may have seen the bad bytes; hash the file instead
+    if (indices.length > 0) {
+      this.hasher = null;
+    }
+    await this.saveProgressMetadata();
+  }
+
+  /**
+   * Checks every saved chunk against the chunk layout and forgets those
+   * missing from storage or saved with the wrong offset or size. They are
+   * downloaded again right away while downloading, otherwise on resume()
+   * or start(). Resolves with the indices of the damaged chunks.
+   */
+  async verifyAndRepair(): Promise<number[]> {
+    if (
+      this.state === "fetching_metadata" ||
+      this.state === "assembling" ||
+      this.state === "completed" ||
+      this.state === "canceled" ||
+      this.chunkRanges.length === 0
+    ) {
+      return [];
+    }
+
+    const damaged = this.storage.getFile
+      ? this.findDamagedFileChunks(await this.storage.getFile(this.id))
+      : this.findDamagedChunks(await this.storage.getChunks(this.id));
+    if (damaged.length === 0) return [];
+
+    await this.forgetChunks(damaged);
+    this.emit("repair", { chunks: damaged });
+    if (this.state === "downloading") {
+      this.downloadNextChunk();
+    }
+    return damaged;
+  }
+
+  /**
+   * Called by assembly when chunks are missing or damaged: forgets the
+   * damaged ones and goes back to downloading, which assembles again once
+   * everything is in. Fails the task, keeping what was saved, after
+   * MAX_REPAIR_ATTEMPTS rounds.
+   */
+  private async repairBeforeAssembly(damaged: number[]) {
+    if (this.repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+      const detail = damaged.length > 0 ? `: ${damaged.join(", ")}` : "";
+      this.handleError(
+        new AssemblyError(
+          `Chunks still damaged after ${this.repairAttempts} repair attempts${detail}`,
+        ),
+      );
+      return;
+    }
+    this.repairAttempts++;
+
+    console.warn(
+      `DownloadTask: Re-fetching ${damaged.length} damaged chunk(s) before assembly.`,
+    );
+    await this.forgetChunks(damaged);
+    if (damaged.length > 0) {
+      this.emit("repair", { chunks: damaged });
+    }
+    if (this.state !== "assembling") return; // Canceled meanwhile
+
+    this.changeState("downloading");
+    this.downloadNextChunk();
+  }
+
+  private resetSegments() {
+    this.chunkRanges = [];
+    this.nextOffset = 0;
+    this.completedChunks.clear();
+    this.retryCounts.clear();
+    this.retryAt.clear();
+    this.authRetried.clear();
+    this.urlRetried.clear();
+    this.chunkSources.clear();
+    this.completedBytes = 0;
+    this.downloadedBytes = 0;
+    this.resetHashing();
+  }
+
+  private resetHashing() {
+    const expected = this.getExpectedDigest();
+    this.hasher = expected ? createHasher(expected.algorithm) : null;
+    this.hashedBytes = 0;
+    this.pendingHashChunks.clear();
+  }
+
+  private getExpectedDigest(): ExpectedDigest | null {
+    return this.expectedDigest ? parseDigest(this.expectedDigest) : null;
+  }
+
+  /**
+   * Feeds a saved chunk into the running hash. Chunks can finish out of
+   * order, so later ones wait in `pendingHashChunks` until the bytes
+   * before them have been hashed.
+   */
+  private queueChunkForHash(startByte: number, blob: Blob) {
+    const hasher = this.hasher;
+    if (!hasher) return;
+
+    this.pendingHashChunks.set(startByte, blob);
+    this.hashChain = this.hashChain.then(async () => {
+      let next: Blob | undefined;
+      while ((next = this.pendingHashChunks.get(this.hashedBytes))) {
+        this.pendingHashChunks.delete(this.hashedBytes);
+        await hashBlob(hasher, next);
+        // Hashing was reset (e.g. restarted from scratch) while we awaited
+        if (this.hasher !== hasher) return;
+        this.hashedBytes += next.size;
+      }
+    });
+  }
+
+  /**
+   * Finishes the running hash over the assembled file and compares it with
+   * the expected digest. Returns an IntegrityError on mismatch.
+   */
+  private async verifyIntegrity(file: Blob): Promise<IntegrityError | null> {
+    const expected = this.getExpectedDigest();
+    if (!expected) return null;
+
+    await this.hashChain;
+
+    let hasher = this.hasher;
+    let offset = this.hashedBytes;
+    if (!hasher) {
+      hasher = createHasher(expected.algorithm);
+      offset = 0;
+    }
+
+    // Anything not hashed while downloading is read back from the file.
+    if (offset < file.size) {
+      await hashBlob(hasher, file.slice(offset));
+    }
+
+    const actual = hasher.digest();
+    if (digestsEqual(actual, expected.value)) return null;
+
+    return new IntegrityError(
+      expected.algorithm,
+      toHex(expected.value),
+      toHex(actual),
+    );
+  }
+
+  /** Byte range [start, end] (inclusive) covered by a chunk. */
+  private getChunkRange(index: number): [number, number] {
+    // Byte ranges are inclusive and 0-based, just like array indices.
+    const [startByte, plannedEnd] = this.chunkRanges[index];
+    let endByte = plannedEnd;
+
+    if (this.totalBytes > 0 && endByte >= this.totalBytes) {
+      // Clamp the chunk's end byte to the file's end byte,
+      // which is necessary for the final partial chunk.
+      endByte = this.totalBytes - 1;
+    }
+    return [startByte, endByte];
+  }
+
+  private getChunkLength(index: number): number {
+    const [startByte, endByte] = this.getChunkRange(index);
+    return endByte - startByte + 1;
+  }
+
+  /**
+   * Returns the planned chunk nearest the start of the file that is neither
+   * completed nor in flight, else plans a new one. Returns -1 if there is
+   * nothing left to request.
+   */
+  private getNextPendingChunk(): number {
+    const now = Date.now();
+    let next = -1;
+    for (let i = 0; i < this.chunkRanges.length; i++) {
+      if (this.completedChunks.has(i) || this.activeRequests.has(i)) continue;
+      // Still backing off after a failure
+      if ((this.retryAt.get(i) ?? 0) > now) continue;
+      if (next === -1 || this.chunkRanges[i][0] < this.chunkRanges[next][0]) {
+        next = i;
+      }
+    }
+    if (next !== -1) return next;
+
+    if (this.totalBytes > 0) {
+      return this.nextOffset < this.totalBytes ? this.planChunk() : -1;
+    }
+    // Without a known size we can't tell where the file ends,
+    // so a new chunk is only planned once every earlier one is saved.
+    if (this.completedChunks.size === this.chunkRanges.length) {
+      return this.planChunk();
+    }
+    return -1;
+  }
+
+  /**
+   * How many chunk requests may run at once. Parallel ranges need a known
+   * size and Range support; otherwise we stay on a single stream.
+   */
+  private getConnectionLimit(): number {
+    if (!this.supportsResume || this.totalBytes <= 0) return 1;
+    return this.connections;
+  }
+
+  pause() {
+    if (this.state !== "downloading" || this.role === "observer") return;
+    this.changeState("paused");
+    this.emit("pause");
+
+    // Bytes a streaming transport received are kept as chunks of their
+    // own; other partial chunks are discarded and re-requested on resume.
+    for (const [index, request] of this.activeRequests) {
+      this.savePartialChunk(index, request);
+    }
+    this.abortAllRequests();
+
+    // Record the active time up to now, for a resume after reload
+    if (this.totalBytes > 0) {
+      this.saveProgressMetadata().catch((err) =>
+        console.warn("DownloadTask: Failed to save metadata on pause.", err),
+      );
+    }
+  }
+
+  getBandwidthLimit(): number | null {
+    return this.rateLimiter.getLimit();
+  }
+
+  /**
+   * Sets this task's own cap in bytes per second, or removes it with
+   * `null`. Applies from the next chunk request.
+   */
+  setBandwidthLimit(bytesPerSecond: number | null) {
+    this.rateLimiter.setLimit(bytesPerSecond);
+    if (this.state === "downloading") {
+      this.downloadNextChunk();
+    }
+  }
+
+  resume() {
+    if (this.state !== "paused" || this.role === "observer") return;
+    // Chunks that were backing off are retried right away
+    this.retryAt.clear();
+    this.changeState("downloading");
+    this.emit("resume");
+    this.downloadNextChunk(); // Resume the loop
+  }
+
+  async cancel() {
+    if (this.role === "observer") {
+      // Stops watching; the download goes on in the tab that owns it
+      this.releaseClaim();
+      this.observedProgress = null;
+      this.changeState("canceled");
+      this.emit("cancel");
+      return;
+    }
+    this.changeState("canceled"); // Set state first
+    this.emit("cancel");
+
+    this.abortAllRequests();
+
+    // Clear all data for this task
+    await this.storage.clearMetadata(this.id);
+    await this.storage.clearChunks(this.id);
+  }
+
+  /**
+   * Starts requests for pending chunks until the connection limit is reached.
+   * Called again whenever a chunk finishes, so it doubles as the download loop.
+   */
+  private async downloadNextChunk() {
+    if (this.state !== "downloading" || this.role === "observer") return;
+
+    if (!isOnline()) {
+      this.emit("networkLost");
+      // Don't error out, just pause.
+      this.abortAllRequests();
+      this.changeState("paused");
+      return;
+    }
+
+    // Check if download is already complete
+    if (this.totalBytes > 0 && this.completedBytes >= this.totalBytes) {
+      if (this.activeRequests.size === 0) {
+        this.assembleFile();
+      }
+      return;
+    }
+
+    while (this.activeRequests.size < this.getConnectionLimit()) {
+      const index = this.getNextPendingChunk();
+      if (index === -1) break;
+
+      // Over the bandwidth budget: come back once it has refilled
+      const delay = this.getBandwidthDelay();
+      if (delay > 0) {
+        this.scheduleNextChunk(delay);
+        break;
+      }
+      this.requestChunk(index);
+    }
+  }
+
+  private getBandwidthDelay(): number {
+    return Math.max(
+      this.rateLimiter.getDelay(),
+      this.sharedRateLimiter?.getDelay() ?? 0,
+    );
+  }
+
+  private getEffectiveBandwidthLimit(): number | null {
+    const limits = [
+      this.rateLimiter.getLimit(),
+      this.sharedRateLimiter?.getLimit() ?? null,
+    ].filter((limit): limit is number => limit !== null);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  private scheduleNextChunk(delay: number) {
+    if (this.throttleTimer !== null) return;
+    this.throttleTimer = setTimeout(() => {
+      this.throttleTimer = null;
+      this.downloadNextChunk();
+    }, delay);
+  }
+
+  /**
+   * A request's expected length is charged before it starts, so parallel
+   * connections can't all start on the same budget. Bytes beyond that
+   * (e.g. a full 200 body) are charged as they arrive.
+   */
+  private reserveBandwidth(request: ChunkRequest, bytes: number) {
+    request.reserved += bytes;
+    this.rateLimiter.consume(bytes);
+    this.sharedRateLimiter?.consume(bytes);
+  }
+
+  private trackReceived(request: ChunkRequest, loaded: number) {
+    // Counted per request, so discarded partial chunks that are fetched
+    // again on retry still show up as transferred bytes.
+    this.speedMeter.record(loaded - request.loaded);
+    request.loaded = loaded;
+    if (loaded > request.reserved) {
+      this.reserveBandwidth(request, loaded - request.reserved);
+    }
+  }
+
+  /** Gives back the reserved bytes a failed or aborted request never got. */
+  private releaseBandwidth(request: ChunkRequest | undefined) {
+    if (!request) return;
+    const unused = request.reserved - request.loaded;
+    request.reserved = request.loaded;
+    this.rateLimiter.refund(unused);
+    this.sharedRateLimiter?.refund(unused);
+  }
+
+  private requestChunk(index: number) {
+    const [startByte, endByte] = this.getChunkRange(index);
+
+    if (!this.supportsResume && startByte > 0) {
+      this.handleError(
+        new UnsupportedServerError(
+          "File does not support resume, but resume was attempted.",
+        ),
+      );
+      return;
+    }
+
+    const mirror = this.pickMirror();
+    if (mirror === -1) {
+      this.handleError(new NetworkError("No usable mirror left"));
+      return;
+    }
+    const request: ChunkRequest = {
+      handle: null,
+      response: null,
+      mirror,
+      loaded: 0,
+      buffer: [],
+      buffered: 0,
+      saved: 0,
+      reserved: 0,
+      startedAt: 0,
+      watchdog: null,
+      tokenGeneration: this.tokenGeneration,
+      urlGeneration: this.urlGeneration,
+    };
+    this.activeRequests.set(index, request);
+    if (this.totalBytes > 0) {
+      this.reserveBandwidth(request, endByte - startByte + 1);
+    }
 
-      // Strategy 1: Try HEAD first (Fastest)
-      const xhr = new XMLHttpRequest();
-      xhr.open("HEAD", this.url, true);
+    const isSource = mirror === this.validatorSource;
+    const ifRange = this.supportsResume
+      ? this.getIfRangeValidator(isSource)
+      : null;
+
+    const handlers: TransportHandlers = {
+      // Check validators as soon as headers arrive, before a full
+      // (possibly huge) 200 body of a changed file is downloaded.
+      onHeaders: (response) => {
+        request.response = response;
+
+        // Connected; from now on watch for the data to stop flowing
+        this.armStallWatchdog(index, request);
+
+        if (!this.validatorsKnown) {
+          // HEAD failed, so this is the first response we see. Its mirror
+          // is the one the others must match, validators or not.
+          this.etag = response.getHeader("ETag");
+          this.lastModified = response.getHeader("Last-Modified");
+          this.validatorSource = mirror;
+          this.validatorsKnown = true;
+          if (this.totalBytes === 0) {
+            this.totalBytes = this.tryParseTotalBytes(response);
+          }
+        } else if (mirror !== this.validatorSource) {
+          // Only the source can tell us the file changed; a mirror that
+          // differs from it is just dropped.
+          const mismatch = this.getMirrorMismatch(response, startByte);
+          if (mismatch) {
+            this.rejectMirror(index, request, mismatch);
+          }
+        } else if (this.hasRemoteChanged(response, ifRange !== null)) {
+          this.handleRemoteChange(response).catch((err) =>
+            // The new metadata request failed, or storage did
+            err instanceof DownloaderError
+              ? this.handleError(err)
+              : this.handleStorageError(err),
+          );
+        }
+      },
 
-      xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          this.handleMetadataSuccess(xhr);
-          resolve();
-        } else {
-          // HEAD failed (e.g. 405 Method Not Allowed).
-          // Switch to Strategy 2: Probe Request
-          console.warn("HEAD failed, trying Range Probe...");
-          this.fetchMetadataProbe().then(resolve).catch(reject);
+      onData: (bytes) => {
+        request.buffer.push(bytes);
+        request.buffered += bytes.byteLength;
+        if (request.buffered >= PARTIAL_CHUNK_SIZE) {
+          this.savePartialChunk(index, request);
         }
-      };
+      },
 
-      xhr.onerror = () => {
-        // Network error on HEAD (could be CORS). Try Probe as backup.
-        console.warn("HEAD error, trying Range Probe...");
-        this.fetchMetadataProbe().then(resolve).catch(reject);
-      };
+      onProgress: (loaded) => {
+        if (loaded > request.loaded) {
+          this.armStallWatchdog(index, request);
+        }
+        this.trackReceived(request, loaded);
+        this.updateDownloadedBytes();
+
+        // Try to get totalBytes, ONLY from Content-Range (if not known)
+        if (this.totalBytes === 0 && request.response) {
+          const discoveredTotal = this.tryParseTotalBytes(request.response);
+          if (discoveredTotal > 0) {
+            this.totalBytes = discoveredTotal;
+          }
+        }
 
-      xhr.send();
-    });
-  }
+        if (this.totalBytes > 0) {
+          this.emitProgress();
+        }
+      },
 
-  /**
-   * Sends a GET request for a single byte to "probe" the server capabilities.
-   */
-  private fetchMetadataProbe(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      xhr.open("GET", this.url, true);
-      // Request just the first byte
-      xhr.setRequestHeader("Range", "bytes=0-0");
+      onLoad: async (response, body) => {
+        this.clearWatchdog(request);
 
-      // CRITICAL: Watch for headers to arrive so we can abort 200 OK immediately
-      xhr.onreadystatechange = () => {
-        if (xhr.readyState === 2) {
-          // HEADERS_RECEIVED
-          if (xhr.status === 200) {
-            // Server ignored Range header and is sending the whole file!
-            // Abort immediately to prevent downloading 10GB.
-            console.warn("Server ignored Range (200 OK). Aborting probe.");
-            xhr.abort();
+        // Handle non-2xx statuses
+        if (response.status === 401 && this.canRetryUnauthorized(index)) {
+          this.retryUnauthorized(index, request);
+          return;
+        }
+        if (
+          (response.status === 403 || response.status === 410) &&
+          mirror === 0 &&
+          this.canRetryExpiredUrl(index)
+        ) {
+          this.retryExpiredUrl(index, request);
+          return;
+        }
+        if (response.status >= 300) {
+          const error = new HttpError(response.status, response.statusText);
+          if (isRetryable(this.retryPolicy, error)) {
+            // e.g. 429, 503, unless the policy says otherwise
+            this._handleRetryableError(
+              index,
+              error,
+              parseRetryAfter(response.getHeader("Retry-After")),
+            ); // RETRY
+            return;
+          }
+          // Other errors (3xx redirect, 4xx client error)
+          this.failRequest(index, request, error); // FAIL
+          return;
+        }
 
-            // We know resume is NOT supported.
+        // Streamed bodies were collected as they came in, minus the bytes
+        // already saved as partial chunks
+        const blob = body ?? new Blob(request.buffer);
+        request.buffer = [];
+        request.buffered = 0;
+        // The last bytes may not have produced a progress event
+        this.trackReceived(request, request.saved + blob.size);
+
+        if (response.status === 200) {
+          // A full response may carry a whole-file digest header
+          this.captureServerDigest(response);
+        }
+
+        try {
+          // --- Server Resume Support Check ---
+          if (response.status === 200 && startByte > 0) {
+            // Server sent 200 OK instead of 206 Partial. It doesn't support resume.
+            // Any other segments are requesting ranges the server will ignore.
+            this.activeRequests.delete(index);
+            this.abortAllRequests();
             this.supportsResume = false;
 
-            // Try to get length from normal header
-            this.handleMetadataSuccess(xhr);
+            // We must clear old data and restart from scratch
+            await this.saveWholeFile(blob);
+          } else if (response.status === 206) {
+            // This is a partial chunk, as expected.
+            // We MUST get the total size from Content-Range
+            if (this.totalBytes === 0) {
+              const discoveredTotal = this.tryParseTotalBytes(response);
+              if (discoveredTotal > 0) {
+                this.totalBytes = discoveredTotal;
+              } else {
+                this.activeRequests.delete(index); // Clean up
+                this.handleError(
+                  new UnsupportedServerError(
+                    "Server did not provide Content-Range header for chunked download.",
+                  ),
+                );
+                return;
+              }
+            }
 
-            resolve(); // Resolve successfully (we just fall back to single-stream)
+            // Save the chunk. Partial chunks saved earlier moved its start.
+            const [offset] = this.getChunkRange(index);
+            await this.storage.saveChunk({
+              taskId: this.id,
+              index: index,
+              offset,
+              blob: blob,
+            });
+            this.queueChunkForHash(offset, blob);
+
+            this.activeRequests.delete(index);
+            this.retryCounts.delete(index);
+            this.retryAt.delete(index);
+            this.authRetried.delete(index);
+            this.urlRetried.delete(index);
+            this.completedChunks.add(index);
+            this.completedBytes += blob.size;
+            this.chunkSources.set(index, mirror);
+            this.adaptChunkSize(request.loaded, Date.now() - request.startedAt);
+          } else if (response.status === 200 && startByte === 0) {
+            // This is a 200 OK for the *first* chunk.
+            // This means the server sent the *whole file* at once.
+            this.activeRequests.delete(index);
+            this.abortAllRequests();
+            this.supportsResume = false;
+
+            await this.saveWholeFile(blob);
+            this.chunkSources.set(0, mirror);
           }
+        } catch (err) {
+          this.activeRequests.delete(index); // Clean up
+          this.handleStorageError(err);
+          return;
         }
-      };
 
-      xhr.onload = () => {
-        // If we get here, it's likely a 206 Partial Content (Success)
-        if (xhr.status === 206) {
-          this.handleMetadataSuccess(xhr);
-          resolve();
+        // The task may have been paused or canceled while the chunk was saving.
+        if (this.state !== "downloading") return;
+
+        this.updateDownloadedBytes();
+        const finished =
+          this.totalBytes > 0 && this.completedBytes >= this.totalBytes;
+        if (finished && this.activeRequests.size > 0) return;
+
+        // Save metadata, then continue the loop or, once the download is
+        // finished, assemble (which reports itself as "assembling")
+        try {
+          await this.saveProgressMetadata();
+        } catch (err) {
+          this.activeRequests.delete(index);
+          this.handleStorageError(err);
+          return;
+        }
+        if (finished) {
+          this.assembleFile();
         } else {
-          // Any other status (404, 500, etc) is a real error
-          reject(new HttpError(xhr.status, xhr.statusText));
+          this.downloadNextChunk(); // Continue loop
         }
-      };
+      },
 
-      xhr.onerror = () => reject(new NetworkError("Probe request failed"));
+      onError: (error) => {
+        this.clearWatchdog(request);
+        this.savePartialChunk(index, request);
+        if (isRetryable(this.retryPolicy, error)) {
+          this._handleRetryableError(index, error);
+        } else {
+          this.failRequest(index, request, error);
+        }
+      },
+    };
 
-      xhr.send();
-    });
+    // The URL and headers may come from async providers
+    Promise.all([this.getRequestUrl(mirror), this.getRequestHeaders()])
+      .then(([requestUrl, headers]) => {
+        // Paused or canceled while waiting
+        if (this.activeRequests.get(index) !== request) return;
+
+        const url = new URL(requestUrl);
+        // Signed URLs must be used as-is; extra parameters break them
+        if (!this.resolveUrl || mirror > 0) {
+          // Add unique query params to prevent Keep-Alive race conditions.
+          url.searchParams.set("_t", Date.now().toString());
+        }
+
+        // Set Range header
+        const rangeHeaders: Record<string, string> = {};
+        if (this.supportsResume) {
+          rangeHeaders["Range"] = `bytes=${startByte}-${endByte}`;
+          // Only honor the range if the file is still the version we started
+          if (ifRange) {
+            rangeHeaders["If-Range"] = ifRange;
+          }
+        }
+
+        request.startedAt = Date.now();
+        request.handle = this.transport.send(
+          this.buildRequest("GET", url.href, { ...headers, ...rangeHeaders }),
+          handlers,
+        );
+        this.armConnectWatchdog(index, request);
+      })
+      .catch((err) => {
+        if (this.activeRequests.get(index) !== request) return;
+        this.activeRequests.delete(index);
+        this.releaseBandwidth(request);
+        this.handleError(
+          new DownloaderError(`Preparing request failed: ${err.message}`),
+        );
+      });
   }
 
   /**
-   * Helper to extract data from a successful XHR (HEAD or 206 Probe)
+   * Keeps what a streaming request has received so far as a completed
+   * chunk of its own, so it survives a retry, a pause or a page reload.
+   * The request's chunk shrinks to the bytes still to come. Only 206
+   * bodies qualify; a 200 body may belong to a different range.
    */
-  private handleMetadataSuccess(xhr: XMLHttpRequest) {
-    const length = xhr.getResponseHeader("Content-Length");
-    if (length) {
-      this.totalBytes = parseInt(length, 10);
-    }
+  private savePartialChunk(index: number, request: ChunkRequest) {
+    if (request.buffered === 0 || request.response?.status !== 206) return;
+
+    const [startByte, endByte] = this.getChunkRange(index);
+    // The whole chunk is in; onLoad saves it
+    if (request.buffered >= endByte - startByte + 1) return;
+
+    const blob = new Blob(request.buffer);
+    request.buffer = [];
+    request.buffered = 0;
+    request.saved += blob.size;
+
+    const part = this.chunkRanges.length;
+    this.chunkRanges.push([startByte, startByte + blob.size - 1]);
+    this.chunkRanges[index] = [
+      startByte + blob.size,
+      this.chunkRanges[index][1],
+    ];
+    this.completedChunks.add(part);
+    this.completedBytes += blob.size;
+    this.chunkSources.set(part, request.mirror);
+    this.queueChunkForHash(startByte, blob);
+
+    this.storage
+      .saveChunk({ taskId: this.id, index: part, offset: startByte, blob })
+      .then(() => {
+        if (this.state === "downloading" || this.state === "paused") {
+          return this.saveProgressMetadata();
+        }
+      })
+      .catch((err) => {
+        // The range counts as done; assembly finds it missing and
+        // downloads it again
+        if (this.state === "downloading") {
+          this.handleStorageError(err);
+        }
+      });
+  }
 
-    // If Content-Length was missing or misleading (common in Range responses),
-    // try Content-Range
-    const rangeTotal = this.tryParseTotalBytes(xhr);
-    if (rangeTotal > 0) {
-      this.totalBytes = rangeTotal;
+  private handleStorageError(err: Error) {
+    // Handle Quota Error
+    if (err instanceof DOMException && err.name === "QuotaExceededError") {
+      const needed = Math.max(0, this.totalBytes - this.completedBytes);
+      this.pauseForQuota(new QuotaError(undefined, needed));
+    } else {
+      this.handleError(new DownloaderError(err.message));
     }
+  }
 
-    // Check resume support
-    this.supportsResume =
-      xhr.status === 206 || xhr.getResponseHeader("Accept-Ranges") === "bytes";
+  private armConnectWatchdog(index: number, request: ChunkRequest) {
+    const { connect } = this.timeouts;
+    this.armWatchdog(request, connect, () =>
+      this.handleTimeout(
+        index,
+        request,
+        new TimeoutError(`No response within ${connect}ms`),
+      ),
+    );
   }
 
-  /**
-   * Calculates and sets the optimal chunk size based on total file size.
-   */
-  private calculateChunkSize() {
-    if (this.totalBytes <= 0) {
-      this.chunkSize = DEFAULT_CHUNK_SIZE;
-      return;
+  /** Restarted whenever bytes arrive. */
+  private armStallWatchdog(index: number, request: ChunkRequest) {
+    const { stall } = this.timeouts;
+    this.armWatchdog(request, stall, () => {
+      this.emit("stalled", {
+        chunk: index,
+        url: this.getMirrorUrl(request.mirror),
+        received: request.loaded,
+        idle: stall,
+      });
+      this.handleTimeout(
+        index,
+        request,
+        new TimeoutError(`No data received for ${stall}ms`),
+      );
+    });
+  }
+
+  private armWatchdog(
+    request: ChunkRequest,
+    timeout: number,
+    fire: () => void,
+  ) {
+    this.clearWatchdog(request);
+    if (timeout > 0) {
+      request.watchdog = setTimeout(fire, timeout);
     }
+  }
 
-    const dynamicSize = Math.ceil(this.totalBytes / TARGET_CHUNK_COUNT);
+  private clearWatchdog(request: ChunkRequest) {
+    if (request.watchdog !== null) {
+      clearTimeout(request.watchdog);
+      request.watchdog = null;
+    }
+  }
 
-    // Clamp between DEFAULT (min) and MAX
-    this.chunkSize = Math.max(
-      DEFAULT_CHUNK_SIZE,
-      Math.min(dynamicSize, MAX_CHUNK_SIZE),
-    );
+  /**
+   * Aborts a hung request and hands it to the retry path like a network
+   * error. Bytes a streaming transport delivered are kept; the partial
+   * body of an XHR blob response can't be read, so that chunk is fetched
+   * again, split by the retry path to risk less.
+   */
+  private handleTimeout(index: number, request: ChunkRequest, error: Error) {
+    if (this.activeRequests.get(index) !== request) return;
+    this.detachRequest(request);
+    this.savePartialChunk(index, request);
 
-    console.log(`Chunk Size:${this.chunkSize / (1024 * 1024)}MB`);
+    if (isRetryable(this.retryPolicy, error)) {
+      this._handleRetryableError(index, error);
+    } else {
+      this.failRequest(index, request, error);
+    }
   }
 
-  pause() {
-    if (this.state !== "downloading") return;
-    this.changeState("paused");
-    this.emit("pause");
+  /** Stops a request without any of its handlers running. */
+  private detachRequest(request: ChunkRequest) {
+    this.clearWatchdog(request);
+    request.handle?.abort();
+  }
 
-    if (this.xhr) {
-      const currentXhr = this.xhr;
-      this.xhr = null;
+  private getMirrorUrl(mirror: number): string {
+    return mirror === 0 ? this.url : this.mirrors[mirror - 1];
+  }
 
-      // Then detach listeners and abort
-      currentXhr.onprogress = null;
-      currentXhr.onload = null;
-      currentXhr.onerror = null;
-      currentXhr.onabort = null;
-      currentXhr.abort();
+  /**
+   * The usable mirror with the fewest requests in flight, preferring
+   * earlier ones on a tie, or -1 if every mirror was dropped.
+   */
+  private pickMirror(): number {
+    const load = this.mirrorStates.map(() => 0);
+    for (const request of this.activeRequests.values()) {
+      load[request.mirror]++;
     }
+
+    let best = -1;
+    this.mirrorStates.forEach(({ status }, mirror) => {
+      if (status !== "ok") return;
+      if (best === -1 || load[mirror] < load[best]) best = mirror;
+    });
+    return best;
   }
 
-  resume() {
-    if (this.state !== "paused") return;
-    this.changeState("downloading");
-    this.emit("resume");
-    this.downloadNextChunk(); // Resume the loop
+  private hasUsableMirror(): boolean {
+    return this.mirrorStates.some(({ status }) => status === "ok");
   }
 
-  async cancel() {
-    this.changeState("canceled"); // Set state first
-    this.emit("cancel");
+  /** Whether a mirror other than `mirror` is still usable. */
+  private canFailOver(mirror: number): boolean {
+    return this.mirrorStates.some(
+      ({ status }, other) => other !== mirror && status === "ok",
+    );
+  }
 
-    if (this.xhr) {
-      // Detach listeners before aborting
-      const currentXhr = this.xhr;
-      this.xhr = null;
+  private resetMirrors() {
+    this.mirrorStates = this.mirrorStates.map(() => ({ status: "ok" }));
+  }
 
-      // Then detach listeners and abort
-      currentXhr.onprogress = null;
-      currentXhr.onload = null;
-      currentXhr.onerror = null;
-      currentXhr.onabort = null;
-      currentXhr.abort();
-    }
+  private disableMirror(mirror: number, status: MirrorStatus, reason: string) {
+    const state = this.mirrorStates[mirror];
+    if (state.status !== "ok") return;
+    state.status = status;
+    state.reason = reason;
 
-    // Clear all data for this task
-    await downloadStorage.clearMetadata(this.url);
-    await downloadStorage.clearChunks(this.url);
+    const url = this.getMirrorUrl(mirror);
+    console.warn(`DownloadTask: Dropping mirror ${url}. ${reason}`);
+    this.emit("mirrorDisabled", { url, status, reason });
   }
 
-  private async downloadNextChunk() {
-    if (this.state !== "downloading") return;
+  /**
+   * Drops a mirror whose response doesn't match the file, and requests
+   * the chunk again from another one.
+   */
+  private rejectMirror(index: number, request: ChunkRequest, reason: string) {
+    this.detachRequest(request);
 
-    if (!isOnline()) {
-      this.emit("networkLost");
-      // Don't error out, just pause.
-      this.changeState("paused");
-      return;
-    }
+    this.releaseBandwidth(request);
+    this.activeRequests.delete(index);
+    this.updateDownloadedBytes();
+    this.disableMirror(request.mirror, "mismatch", reason);
 
-    // Check if download is already complete
-    if (this.totalBytes > 0 && this.downloadedBytes >= this.totalBytes) {
-      this.assembleFile();
-      return;
+    if (this.hasUsableMirror()) {
+      this.downloadNextChunk();
+    } else {
+      this.handleError(new AssemblyError(`No matching mirror left. ${reason}`));
     }
+  }
 
-    // Calculate range for next chunk
-    // Calculate the byte range for the HTTP Range header.
-    // Byte ranges are inclusive and 0-based, just like array indices.
-    const startByte = this.chunkIndex * this.chunkSize;
-    let endByte: number = startByte + this.chunkSize - 1;
+  /**
+   * Handles an error that retrying won't fix. With other mirrors left, only
+   * the one that caused it is dropped; otherwise the task fails.
+   */
+  private failRequest(index: number, request: ChunkRequest, error: Error) {
+    this.releaseBandwidth(request);
+    this.activeRequests.delete(index);
 
-    if (this.totalBytes > 0 && endByte >= this.totalBytes) {
-      //clamp the chunk's end byte to the file's end
-      // byte, which is necessary for the final partial chunk.
-      endByte = this.totalBytes - 1;
+    if (this.canFailOver(request.mirror)) {
+      this.disableMirror(request.mirror, "failed", error.message);
+      this.updateDownloadedBytes();
+      this.downloadNextChunk();
+    } else {
+      this.handleError(error);
     }
+  }
+
+  /**
+   * Which mirrors are in use, which were dropped and why, and which chunks
+   * each one served in this session.
+   */
+  getMirrorDiagnostics(): MirrorDiagnostics[] {
+    return this.mirrorStates.map(({ status, reason }, mirror) => ({
+      url: this.getMirrorUrl(mirror),
+      status,
+      ...(reason !== undefined && { reason }),
+      chunks: [...this.chunkSources]
+        .filter(([, source]) => source === mirror)
+        .map(([chunk]) => chunk)
+        .sort((a, b) => a - b),
+    }));
+  }
 
-    this.createXHR(startByte, endByte);
+  /**
+   * The URL to request, resolving a fresh one first once its TTL passed.
+   * Only the primary `url` can be refreshed.
+   */
+  private async getRequestUrl(mirror = 0): Promise<string> {
+    if (mirror > 0) return this.getMirrorUrl(mirror);
+
+    const expired =
+      this.urlResolvedAt === null ||
+      (this.urlTtl !== null && Date.now() - this.urlResolvedAt >= this.urlTtl);
+    if (this.resolveUrl && expired) {
+      await this.renewUrl();
+    }
+    return this.url;
   }
 
-  private createXHR(startByte: number, endByte: number) {
-    const xhr = new XMLHttpRequest();
-    this.xhr = xhr;
+  private renewUrl(): Promise<void> {
+    // Parallel requests share one resolveUrl() call
+    this.urlRefresh ??= Promise.resolve(this.resolveUrl!(this))
+      .then((url) => {
+        this.url = url;
+        this.urlResolvedAt = Date.now();
+        this.urlGeneration++;
+      })
+      .finally(() => {
+        this.urlRefresh = null;
+      });
+    return this.urlRefresh;
+  }
 
-    // Add unique query params to prevent Keep-Alive race conditions.
-    const url = new URL(this.url);
-    // Add a cache-busting query parameter
-    url.searchParams.set("_t", Date.now().toString());
+  /** Each chunk gets one retry with a fresh URL after a 403 or 410. */
+  private canRetryExpiredUrl(index: number): boolean {
+    return !!this.resolveUrl && !this.urlRetried.has(index);
+  }
 
-    xhr.open("GET", url.href, true);
-    xhr.responseType = "blob";
+  private async retryExpiredUrl(index: number, request: ChunkRequest) {
+    this.releaseBandwidth(request);
+    this.activeRequests.delete(index);
+    this.urlRetried.add(index);
 
-    // Set Range header
-    if (this.supportsResume) {
-      let range = `bytes=${startByte}-${endByte}`;
-      xhr.setRequestHeader("Range", range);
-    } else {
-      if (startByte > 0) {
+    try {
+      // Sent before the current URL was resolved: retrying is enough
+      if (request.urlGeneration === this.urlGeneration) {
+        await this.renewUrl();
+      }
+    } catch (err) {
+      console.error("DownloadTask: resolveUrl() failed.", err);
+      if (this.state === "downloading") {
         this.handleError(
-          new UnsupportedServerError(
-            "File does not support resume, but resume was attempted.",
-          ),
+          new DownloaderError(`resolveUrl() failed: ${err.message}`),
         );
-        return;
       }
+      return;
     }
 
-    xhr.onprogress = (e: ProgressEvent) => {
-      this.downloadedBytes = startByte + e.loaded;
+    if (this.state === "downloading") {
+      this.downloadNextChunk(); // Same chunk, same offset, new URL
+    }
+  }
 
-      // Try to get totalBytes, ONLY from Content-Range (if not known)
-      if (this.totalBytes === 0) {
-        const discoveredTotal = this.tryParseTotalBytes(xhr);
-        if (discoveredTotal > 0) {
-          this.totalBytes = discoveredTotal;
-        }
-      }
+  private async getRequestHeaders(): Promise<Record<string, string>> {
+    const { headers, getHeaders } = this.requestOptions;
+    return { ...headers, ...(getHeaders ? await getHeaders() : {}) };
+  }
 
-      if (this.totalBytes > 0) {
-        this.emitProgress();
-      }
+  private buildRequest(
+    method: TransportRequest["method"],
+    url: string,
+    headers: Record<string, string>,
+    timeout = 0,
+  ): TransportRequest {
+    return {
+      method,
+      url,
+      headers,
+      withCredentials: !!this.requestOptions.withCredentials,
+      timeout,
     };
+  }
 
-    xhr.onload = async () => {
-      // Handle non-2xx statuses
-      if (xhr.status >= 500) {
-        // Server errors (500, 503, etc.)
-        this._handleRetryableError(new HttpError(xhr.status, xhr.statusText)); // RETRY
-        return;
-      }
-      if (xhr.status >= 300) {
-        // Other errors (3xx redirect, 4xx client error)
-        this.handleError(new HttpError(xhr.status, xhr.statusText)); // FAIL
-        this.xhr = null;
-        return;
-      }
+  /** Each chunk gets one retry after a 401, if there is a way to re-auth. */
+  private canRetryUnauthorized(index: number): boolean {
+    const { refreshToken, getHeaders } = this.requestOptions;
+    return (!!refreshToken || !!getHeaders) && !this.authRetried.has(index);
+  }
 
-      const blob: Blob = xhr.response;
+  private async retryUnauthorized(index: number, request: ChunkRequest) {
+    this.releaseBandwidth(request);
+    this.activeRequests.delete(index);
+    this.authRetried.add(index);
 
-      try {
-        // --- Server Resume Support Check ---
-        if (xhr.status === 200 && startByte > 0) {
-          console.log(
-            "⚠️ Server doesn't support resume (200 OK for non-zero start)",
-          );
-          // Server sent 200 OK instead of 206 Partial. It doesn't support resume.
-          this.supportsResume = false;
-          this.downloadedBytes = blob.size;
-          this.totalBytes = blob.size;
-
-          // We must clear old data and restart from scratch
-          await downloadStorage.clearChunks(this.url);
-          this.chunkIndex = 0;
-          // Save this one chunk (the whole file)
-          await downloadStorage.saveChunk({
-            url: this.url,
-            index: 0,
-            blob: blob,
+    try {
+      // Sent with an older token than the current one: retrying is enough.
+      // Otherwise parallel chunks that hit 401 together share one refresh.
+      if (request.tokenGeneration === this.tokenGeneration) {
+        this.tokenRefresh ??= Promise.resolve(
+          this.requestOptions.refreshToken?.(),
+        )
+          .then(() => {
+            this.tokenGeneration++;
+          })
+          .finally(() => {
+            this.tokenRefresh = null;
           });
-          this.retryCount = 0;
-        } else if (xhr.status === 206) {
-          // This is a partial chunk, as expected.
-          // We MUST get the total size from Content-Range
-          if (this.totalBytes === 0) {
-            const discoveredTotal = this.tryParseTotalBytes(xhr);
-            if (discoveredTotal > 0) {
-              this.totalBytes = discoveredTotal;
-            } else {
-              console.error("❌ No Content-Range header found");
-              this.handleError(
-                new UnsupportedServerError(
-                  "Server did not provide Content-Range header for chunked download.",
-                ),
-              );
-              this.xhr = null; // Clean up
-              return;
-            }
-          }
+        await this.tokenRefresh;
+      }
+    } catch (err) {
+      console.error("DownloadTask: Token refresh failed.", err);
+      // Other chunks waiting on the same refresh fail with it
+      if (this.state === "downloading") {
+        this.handleError(new HttpError(401, "Unauthorized"));
+      }
+      return;
+    }
 
-          // Save the chunk
-          await downloadStorage.saveChunk({
-            url: this.url,
-            index: this.chunkIndex,
-            blob: blob,
-          });
+    if (this.state === "downloading") {
+      this.downloadNextChunk(); // Retry with fresh headers
+    }
+  }
 
-          this.retryCount = 0;
-          this.downloadedBytes = startByte + blob.size;
-        } else if (xhr.status === 200 && startByte === 0) {
-          // This is a 200 OK for the *first* chunk.
-          // This means the server sent the *whole file* at once.
-          this.supportsResume = false;
-          this.totalBytes = blob.size;
-          this.downloadedBytes = blob.size;
-
-          // Save this one chunk (the whole file)
-          await downloadStorage.saveChunk({
-            url: this.url,
-            index: 0,
-            blob: blob,
-          });
-          this.retryCount = 0;
-        }
-      } catch (err) {
-        console.error("❌ Error saving chunk:", err);
-        // Handle Quota Error
-        if (err instanceof DOMException && err.name === "QuotaExceededError") {
-          this.handleError(new QuotaError());
-        } else {
-          this.handleError(new DownloaderError(err.message));
-        }
-        this.xhr = null; // Clean up
-        return;
-      }
+  /**
+   * Replaces all stored data with a single chunk holding the whole file.
+   * Used when the server answers with 200 OK instead of a partial range.
+   */
+  private async saveWholeFile(blob: Blob) {
+    await this.storage.clearChunks(this.id);
+    await this.storage.saveChunk({
+      taskId: this.id,
+      index: 0,
+      offset: 0,
+      blob: blob,
+    });
 
-      // Clean up XHR reference
-      this.xhr = null;
-
-      // If the download is not finished, save metadata and continue
-      if (this.totalBytes === 0 || this.downloadedBytes < this.totalBytes) {
-        await downloadStorage.saveMetadata({
-          url: this.url,
-          filename: this.filename,
-          totalBytes: this.totalBytes,
-          downloadedBytes: this.downloadedBytes,
-          supportsResume: this.supportsResume,
-          chunkSize: this.chunkSize,
-        });
-
-        // Move to next chunk
-        this.chunkIndex++;
-        this.downloadNextChunk(); // Continue loop
-      } else {
-        console.log("🎉 Download complete! Assembling file...");
-        // The download IS finished - save final metadata, then assemble.
-        await downloadStorage.saveMetadata({
-          url: this.url,
-          filename: this.filename,
-          totalBytes: this.totalBytes,
-          downloadedBytes: this.downloadedBytes,
-          supportsResume: this.supportsResume,
-          chunkSize: this.chunkSize,
-        });
+    this.totalBytes = blob.size;
+    this.resetSegments();
+    this.chunkRanges = [[0, blob.size - 1]];
+    this.nextOffset = blob.size;
+    this.completedChunks.add(0);
+    this.completedBytes = blob.size;
+    this.queueChunkForHash(0, blob);
+  }
 
-        this.assembleFile();
-      }
-    };
+  private async saveProgressMetadata() {
+    await this.storage.saveMetadata({
+      id: this.id,
+      url: this.sourceUrl,
+      filename: this.filename,
+      totalBytes: this.totalBytes,
+      downloadedBytes: this.completedBytes,
+      supportsResume: this.supportsResume,
+      chunkSize: this.chunkSize,
+      chunkRanges: [...this.chunkRanges],
+      completedChunks: [...this.completedChunks],
+      expectedDigest: this.expectedDigest ?? undefined,
+      etag: this.etag ?? undefined,
+      lastModified: this.lastModified ?? undefined,
+      elapsed: this.speedMeter.getElapsed(),
+    });
+  }
 
-    xhr.onerror = () => {
-      this._handleRetryableError(new NetworkError());
-    };
+  /** Sums saved chunks plus whatever in-flight segments have received. */
+  private updateDownloadedBytes() {
+    let inFlight = 0;
+    for (const request of this.activeRequests.values()) {
+      inFlight += request.loaded - request.saved;
+    }
+    this.downloadedBytes = this.completedBytes + inFlight;
+  }
 
-    xhr.onabort = () => {
-      // This check is now safe, as pause/cancel will detach it.
-      // This will only run for truly unexpected aborts.
-      if (this.state === "paused" || this.state === "canceled") return;
-      this.handleError(new NetworkError("Aborted unexpectedly"));
-      this.xhr = null;
-    };
+  /**
+   * Detaches listeners from and aborts every in-flight chunk request.
+   */
+  private abortAllRequests() {
+    const requests = [...this.activeRequests.values()];
+    this.activeRequests.clear();
+
+    if (this.throttleTimer !== null) {
+      clearTimeout(this.throttleTimer);
+      this.throttleTimer = null;
+    }
 
-    xhr.send();
+    for (const request of requests) {
+      this.releaseBandwidth(request);
+      // Detach listeners before aborting
+      this.detachRequest(request);
+    }
+    this.updateDownloadedBytes();
   }
 
-  private tryParseTotalBytes(xhr: XMLHttpRequest): number {
-    const contentRange = xhr.getResponseHeader("Content-Range");
+  private tryParseTotalBytes(response: TransportResponse): number {
+    const contentRange = response.getHeader("Content-Range");
     if (contentRange) {
       // e.g., "bytes 0-5242879/12345678"
       const match = /\/(\d+)$/.exec(contentRange);
@@ -493,39 +2351,53 @@ export class DownloadTask extends EventEmitter {
   }
 
   private async assembleFile() {
+    if (this.storage.getFile) {
+      return this.assembleFromFile(this.storage.getFile.bind(this.storage));
+    }
+
     this.changeState("assembling");
     try {
-      const chunks = await downloadStorage.getChunks(this.url);
+      const chunks = await this.storage.getChunks(this.id);
 
       // 1. Check if we have chunks at all
-      if (chunks.length === 0) {
+      if (chunks.length === 0 && this.completedChunks.size === 0) {
         this.handleError(new AssemblyError("No chunks found to assemble."));
         return;
       }
 
-      // 2. INTEGRITY CHECK: Verify we have no "holes" in the chunks
-      // Since we sorted them in storage, index 0 should be 0, index 1 should be 1...
-      for (let i = 0; i < chunks.length; i++) {
-        if (chunks[i].index !== i) {
-          throw new Error(
-            `Missing chunk at index ${i}. Found index ${chunks[i].index} instead.`,
-          );
-        }
+      // 2. INTEGRITY CHECK: Verify we have no "holes" in the chunks.
+      // Missing or wrong-sized chunks are fetched again, not the whole file.
+      const damaged = this.findDamagedChunks(chunks);
+      if (damaged.length > 0 || !this.isLayoutComplete()) {
+        await this.repairBeforeAssembly(damaged);
+        return;
       }
 
-      // 3. Create the Blob (This is where OOM happens for large files)
-      const fileBlob = new Blob(chunks.map((c) => c.blob));
+      // 3. Create the Blob (This is where OOM happens for large files).
+      // Split chunks are numbered after later ones, so order by offset.
+      const stored = new Map(chunks.map((chunk) => [chunk.index, chunk]));
+      const ordered = [...this.chunkRanges.keys()].sort(
+        (a, b) => this.chunkRanges[a][0] - this.chunkRanges[b][0],
+      );
+      const fileBlob = new Blob(ordered.map((i) => stored.get(i)!.blob));
 
-      // 4. Verify size
+      // 4. Verify size (a safety net, the chunks were checked above).
+      // Keep them for verifyAndRepair().
       if (this.totalBytes > 0 && fileBlob.size !== this.totalBytes) {
         this.handleError(
           new AssemblyError(
             `Assembled file size mismatch. Expected ${this.totalBytes}, got ${fileBlob.size}`,
           ),
         );
-        // Don't return here, ensure cleanup runs
-        await downloadStorage.clearMetadata(this.url);
-        await downloadStorage.clearChunks(this.url);
+        return;
+      }
+
+      // 5. Verify digest
+      const integrityError = await this.verifyIntegrity(fileBlob);
+      if (integrityError) {
+        this.handleError(integrityError);
+        await this.storage.clearMetadata(this.id);
+        await this.storage.clearChunks(this.id);
         return;
       }
 
@@ -533,8 +2405,8 @@ export class DownloadTask extends EventEmitter {
       this.emit("complete", fileBlob);
 
       // Clean up
-      await downloadStorage.clearMetadata(this.url);
-      await downloadStorage.clearChunks(this.url);
+      await this.storage.clearMetadata(this.id);
+      await this.storage.clearChunks(this.id);
     } catch (err) {
       // LOG THE ACTUAL ERROR to see if it's memory related
       console.error("Critical Assembly Error:", err);
@@ -543,41 +2415,134 @@ export class DownloadTask extends EventEmitter {
         new AssemblyError(`File assembly failed: ${err.message}`),
       );
       // Ensure cleanup happens even on error
-      await downloadStorage.clearMetadata(this.url);
-      await downloadStorage.clearChunks(this.url);
+      await this.storage.clearMetadata(this.id);
+      await this.storage.clearChunks(this.id);
+    }
+  }
+
+  /**
+   * "Assembly" for file-backed storage (e.g. OPFS): chunks are already in
+   * place, so we only check that every chunk was written and the file has
+   * the expected size. The completed `File` stays in storage until the task
+   * is canceled.
+   */
+  private async assembleFromFile(getFile: (taskId: string) => Promise<File>) {
+    this.changeState("assembling");
+    try {
+      // 1. Get the file (no copy is made)
+      const file = await getFile(this.id);
+
+      // 2. INTEGRITY CHECK: Writes can land out of order, so the file size
+      // alone doesn't prove there are no holes. Missing chunks and chunks
+      // past the end of the file are fetched again.
+      const damaged = this.findDamagedFileChunks(file);
+      if (damaged.length > 0 || !this.isLayoutComplete()) {
+        await this.repairBeforeAssembly(damaged);
+        return;
+      }
+
+      // 3. Verify size. A larger file isn't a missing chunk, so it can't
+      // be repaired; the chunks are kept for verifyAndRepair().
+      if (this.totalBytes > 0 && file.size !== this.totalBytes) {
+        this.handleError(
+          new AssemblyError(
+            `Assembled file size mismatch. Expected ${this.totalBytes}, got ${file.size}`,
+          ),
+        );
+        return;
+      }
+
+      // 4. Verify digest (streams the file, so it is never fully in memory)
+      const integrityError = await this.verifyIntegrity(file);
+      if (integrityError) {
+        this.handleError(integrityError);
+        await this.storage.clearMetadata(this.id);
+        await this.storage.clearChunks(this.id);
+        return;
+      }
+
+      this.changeState("completed");
+      this.emit("complete", file);
+
+      // Clean up (the file itself is the result, so keep it)
+      await this.storage.clearMetadata(this.id);
+    } catch (err) {
+      console.error("Critical Assembly Error:", err);
+
+      this.handleError(
+        new AssemblyError(`File assembly failed: ${err.message}`),
+      );
+      await this.storage.clearMetadata(this.id);
+      await this.storage.clearChunks(this.id);
     }
   }
 
   private handleError(err: Error) {
+    // One failed segment fails the task, so stop the others.
+    this.abortAllRequests();
     this.changeState("error");
     this.emit("error", err);
   }
 
   private changeState(newState: DownloadTaskState) {
     this.state = newState;
+    if (newState !== "paused") this.quotaPause = null;
+    if (
+      newState === "downloading" ||
+      newState === "fetching_metadata" ||
+      newState === "assembling"
+    ) {
+      this.speedMeter.start();
+      // Counted against the free space other tasks check for
+      reserveSpace(this.id, () => this.totalBytes - this.completedBytes);
+    } else {
+      this.speedMeter.stop();
+      releaseSpace(this.id);
+    }
     this.emit("stateChange", newState);
   }
 
   private emitProgress() {
-    const progress = {
-      loaded: this.downloadedBytes,
-      total: this.totalBytes,
-      percent: calculatePercent(this.downloadedBytes, this.totalBytes),
-    };
-    this.emit("progress", progress);
+    this.emit("progress", this.getProgress());
   }
 
-  private async _handleRetryableError(error: Error) {
-    this.xhr = null; // Clean up XHR ref
-
-    if (this.retryCount < this.maxRetries) {
-      this.retryCount++;
-      // Exponential backoff
-      const delay = this.retryDelay * Math.pow(2, this.retryCount - 1);
+  /**
+   * Schedules another attempt at a chunk according to the retry policy,
+   * or fails the task once its attempts are used up. `retryAfter` is the
+   * delay a `Retry-After` header asked for, in ms.
+   */
+  private async _handleRetryableError(
+    index: number,
+    error: Error,
+    retryAfter: number | null = null,
+  ) {
+    const mirror = this.activeRequests.get(index)?.mirror ?? 0;
+    this.releaseBandwidth(this.activeRequests.get(index));
+    this.activeRequests.delete(index); // Clean up request ref
+    this.updateDownloadedBytes();
+
+    // Try again with less at stake
+    this.shrinkChunkSize();
+    this.splitChunk(index);
+
+    const retryCount = (this.retryCounts.get(index) ?? 0) + 1;
+    const { maxAttempts } = this.retryPolicy;
+
+    if (retryCount < maxAttempts) {
+      this.retryCounts.set(index, retryCount);
+      const delay = getRetryDelay(this.retryPolicy, retryCount, retryAfter);
+      this.retryAt.set(index, Date.now() + delay);
 
       console.warn(
-        `DownloadTask: ${error.message}. Retrying in ${delay}ms... (Attempt ${this.retryCount}/${this.maxRetries})`,
+        `DownloadTask: ${error.message}. Retrying chunk ${index} in ${delay}ms... (Attempt ${retryCount + 1}/${maxAttempts})`,
       );
+      this.emit("retry", {
+        chunk: index,
+        attempt: retryCount + 1,
+        maxAttempts,
+        delay,
+        error,
+      });
 
       await new Promise((resolve) => setTimeout(resolve, delay));
 
@@ -587,9 +2552,17 @@ export class DownloadTask extends EventEmitter {
       }
     } else {
       console.error(
-        `DownloadTask: Retries exhausted for ${this.url}. ${error.message}`,
+        `DownloadTask: Retries exhausted for ${this.getMirrorUrl(mirror)}. ${error.message}`,
       );
-      this.handleError(error);
+      if (this.canFailOver(mirror)) {
+        // The next mirror gets the chunk with fresh attempts
+        this.disableMirror(mirror, "failed", error.message);
+        this.retryCounts.delete(index);
+        this.retryAt.delete(index);
+        this.downloadNextChunk();
+      } else {
+        this.handleError(error);
+      }
     }
   }
 }
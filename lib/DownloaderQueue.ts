@@ -1,65 +1,166 @@
+import { EventEmitter } from "./events";
 import { DownloadTask } from "./DownloadTask";
 
-export class DownloaderQueue {
+export interface DownloaderQueueOptions {
+  /**
+   * Pause the lowest-priority active task to make room when a task with a
+   * strictly higher priority is waiting. The paused task is requeued.
+   */
+  preemption?: boolean;
+}
+
+export interface DownloaderQueueEvents {
+  queueAdd: DownloadTask;
+  start: void;
+  pause: void;
+  clear: void;
+  taskStart: DownloadTask;
+  taskComplete: DownloadTask;
+  taskError: DownloadTask;
+  taskCancel: DownloadTask;
+  // Nothing waiting and nothing active
+  empty: void;
+}
+
+export class DownloaderQueue extends EventEmitter<DownloaderQueueEvents> {
+  // Kept sorted by priority, highest first; FIFO within a priority.
   private queue: DownloadTask[] = [];
   private active: DownloadTask[] = [];
   private concurrency: number;
+  private options: DownloaderQueueOptions;
+  private priorities: Map<DownloadTask, number> = new Map();
   private running = false;
   private isProcessing = false;
   private taskCleanupMap: Map<DownloadTask, () => void> = new Map();
   private pendingRun = false; // Flag to indicate run() should be called after current run completes
 
-  constructor(concurrency = 2) {
+  constructor(concurrency = 2, options: DownloaderQueueOptions = {}) {
+    super();
     this.concurrency = concurrency;
+    this.options = options;
   }
 
-  add(task: DownloadTask) {
-    // Don't add tasks that are already finished or canceled
-    if (
-      task.state === "completed" ||
-      task.state === "error" ||
-      task.state === "canceled"
-    ) {
+  /**
+   * Higher priorities run first. Without `priority`, the task keeps any
+   * priority set earlier through setPriority(), or 0.
+   */
+  add(task: DownloadTask, priority?: number) {
+    // Don't add tasks that are already finished or canceled. Failed tasks
+    // may be added again to retry them.
+    if (task.state === "completed" || task.state === "canceled") {
       console.warn(`DownloaderQueue: Ignoring task in state "${task.state}"`);
       return;
     }
 
+    // Paused for quota, it kept its slot and continues in it
+    if (this.active.includes(task) && task.state === "paused") {
+      task.resume();
+      return;
+    }
+
     // Don't add duplicates
     if (this.queue.includes(task) || this.active.includes(task)) {
       console.warn("DownloaderQueue: Task already in queue or active");
       return;
     }
 
-    this.queue.push(task);
+    if (priority !== undefined) {
+      this.priorities.set(task, priority);
+    }
+    this.insert(task);
+    this.emit("queueAdd", task);
+
+    if (this.running) {
+      this.scheduleRun();
+    }
+  }
+
+  getPriority(task: DownloadTask): number {
+    return this.priorities.get(task) ?? 0;
+  }
 
+  /**
+   * Changes a task's priority. Waiting tasks are reordered; for an active
+   * task it only affects whether it can be preempted.
+   */
+  setPriority(task: DownloadTask, priority: number) {
+    this.priorities.set(task, priority);
+    if (this.remove(task)) {
+      this.insert(task);
+    }
     if (this.running) {
       this.scheduleRun();
     }
   }
 
+  /**
+   * Puts a waiting task at the head of the queue, raising its priority to
+   * that of the current head so later additions don't overtake it.
+   */
+  moveToFront(task: DownloadTask) {
+    if (!this.remove(task)) return;
+    if (this.queue.length > 0) {
+      const head = this.getPriority(this.queue[0]);
+      this.priorities.set(task, Math.max(this.getPriority(task), head));
+    }
+    this.queue.unshift(task);
+
+    if (this.running) {
+      this.scheduleRun();
+    }
+  }
+
+  /**
+   * Puts a waiting task at the end of the queue, lowering its priority to
+   * that of the current tail.
+   */
+  moveToBack(task: DownloadTask) {
+    if (!this.remove(task)) return;
+    if (this.queue.length > 0) {
+      const tail = this.getPriority(this.queue[this.queue.length - 1]);
+      this.priorities.set(task, Math.min(this.getPriority(task), tail));
+    }
+    this.queue.push(task);
+  }
+
+  /**
+   * Takes a waiting task off the queue; active tasks aren't affected.
+   * Returns whether it was waiting.
+   */
+  remove(task: DownloadTask): boolean {
+    const index = this.queue.indexOf(task);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
   start() {
     if (this.running) return;
     this.running = true;
+    this.emit("start");
     this.scheduleRun();
   }
 
 pause() {
   this.running = false;
+  this.emit("pause");
   
   // Create a copy because 'task.pause()' triggers the 'pause' event,
   // which triggers 'onFinish', which modifies 'this.active' in place.
   const activeCopy = [...this.active];
   
-  // We iterate in reverse so we unshift them back in correct order (Last In, First Out)
+  // We iterate in reverse so we insert them back in correct order (Last In, First Out)
   for (let i = activeCopy.length - 1; i >= 0; i--) {
     const task = activeCopy[i];
     
-    // 1. Pause the task (triggers event -> removes from active)
+    // 1. Pause the task (triggers event -> removes from active). One
+    // already paused for quota gives up its slot here.
     task.pause();
+    this.release(task);
     
-    // 2. Put it back at the START of the queue so it resumes first
+    // 2. Put it back at the START of its priority so it resumes first
     if (!this.queue.includes(task)) {
-      this.queue.unshift(task);
+      this.insert(task, true);
     }
   }
 }
@@ -74,12 +175,14 @@ pause() {
     this.active = [];
     this.running = false;
     this.pendingRun = false;
+    this.priorities.clear();
 
     // Clean up all active tasks
     activeCopy.forEach((task) => {
       this.cleanupTask(task);
       task.cancel();
     });
+    this.emit("clear");
   }
 
   private scheduleRun() {
@@ -96,26 +199,32 @@ pause() {
     this.isProcessing = true;
 
     try {
-      while (
-        this.running &&
-        this.active.length < this.concurrency &&
-        this.queue.length > 0
-      ) {
+      while (this.running && this.queue.length > 0) {
+        // A full queue only takes a task by preempting a lower-priority one
+        if (
+          this.countDownloading() >= this.concurrency &&
+          !this.preemptFor(this.queue[0])
+        ) {
+          break;
+        }
+
         const task = this.queue.shift()!;
 
         // Skip tasks that were canceled/completed while waiting in queue
-        if (
-          task.state === "canceled" ||
-          task.state === "completed" ||
-          task.state === "error" || 
-          task.state === "paused" // Safety check
-        ) {
+        if (task.state === "canceled" || task.state === "completed") {
           continue;
         }
 
         this.active.push(task);
         this.attachTaskListeners(task);
-        task.start();
+        this.emit("taskStart", task);
+        // Paused tasks (queue paused, or restored after a reload) continue
+        // from their saved chunks instead of starting over.
+        if (task.state === "paused") {
+          task.resume();
+        } else {
+          task.start();
+        }
       }
     } finally {
       this.isProcessing = false;
@@ -132,19 +241,70 @@ pause() {
       ) {
         // All work is done
         this.running = false;
+        this.emit("empty");
+      }
+    }
+  }
+
+  /**
+   * Active tasks that take a slot. Tasks observing another tab's download
+   * (see DownloadTask.role) don't; one that takes over counts again, even
+   * if that briefly puts the queue over its concurrency.
+   */
+  private countDownloading(): number {
+    return this.active.filter((task) => task.role !== "observer").length;
+  }
+
+  /**
+   * Inserts a task behind every waiting task of equal or higher priority,
+   * or ahead of those of equal priority when `ahead` is set.
+   */
+  private insert(task: DownloadTask, ahead = false) {
+    const priority = this.getPriority(task);
+    const index = this.queue.findIndex((queued) =>
+      ahead
+        ? this.getPriority(queued) <= priority
+        : this.getPriority(queued) < priority,
+    );
+    if (index === -1) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+  }
+
+  /**
+   * Pauses and requeues the lowest-priority downloading task if `next`
+   * outranks it. Returns whether a slot was freed.
+   */
+  private preemptFor(next: DownloadTask): boolean {
+    if (!this.options.preemption) return false;
+
+    let victim: DownloadTask | null = null;
+    for (const task of this.active) {
+      // Tasks still fetching metadata or assembling can't be paused, and
+      // observers hold no slot
+      if (task.state !== "downloading" || task.role === "observer") continue;
+      if (!victim || this.getPriority(task) < this.getPriority(victim)) {
+        victim = task;
       }
     }
+    if (!victim || this.getPriority(victim) >= this.getPriority(next)) {
+      return false;
+    }
+
+    // Triggers the "pause" listener, which frees its slot
+    victim.pause();
+    this.insert(victim, true);
+    return true;
   }
 
   private attachTaskListeners(task: DownloadTask) {
     const onFinish = () => {
-      // Remove from active array
-      const index = this.active.indexOf(task);
-      if (index !== -1) {
-        this.active.splice(index, 1);
+      this.release(task);
+      if (task.state === "completed" || task.state === "canceled") {
+        this.priorities.delete(task);
       }
-      // Clean up listeners
-      this.cleanupTask(task);
 
       // Try to start next task
       if (this.running) {
@@ -153,10 +313,28 @@ pause() {
     };
 
     // Existing handlers
-    const onComplete = () => onFinish();
-    const onError = () => onFinish();
-    const onCancel = () => onFinish();
-    const onPause = () => onFinish(); // Free up a concurrency slot.
+    const onComplete = () => {
+      onFinish();
+      this.emit("taskComplete", task);
+    };
+    const onError = () => {
+      onFinish();
+      this.emit("taskError", task);
+    };
+    const onCancel = () => {
+      onFinish();
+      this.emit("taskCancel", task);
+    };
+    // Free up a concurrency slot. A task paused for quota keeps it, so it
+    // stays within the limit when the app resumes it, and no other task
+    // starts filling the storage meanwhile.
+    const onPause = () => {
+      if (!task.quotaError) onFinish();
+    };
+    // Another tab downloads it, so its slot is free for the next task
+    const onStart = () => {
+      if (task.role === "observer" && this.running) this.scheduleRun();
+    };
 
     const cleanup = () => {
       // Removing listeners
@@ -164,6 +342,7 @@ pause() {
       task.off("error", onError);
       task.off("cancel", onCancel);
       task.off("pause", onPause);
+      task.off("start", onStart);
       this.taskCleanupMap.delete(task);
     };
 
@@ -173,6 +352,16 @@ pause() {
     task.on("error", onError);
     task.on("cancel", onCancel);
     task.on("pause", onPause);
+    task.on("start", onStart);
+  }
+
+  /** Takes a task off the active list and stops listening to it. */
+  private release(task: DownloadTask) {
+    const index = this.active.indexOf(task);
+    if (index !== -1) {
+      this.active.splice(index, 1);
+    }
+    this.cleanupTask(task);
   }
 
   private cleanupTask(task: DownloadTask) {
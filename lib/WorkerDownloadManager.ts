@@ -0,0 +1,840 @@
+import { EventEmitter } from "./events";
+import {
+  DownloadJobEvents,
+  DownloadJobState,
+  JobProgress,
+  JobSummary,
+  TaskOutcome,
+} from "./DownloadJob";
+import {
+  DownloadManagerEvents,
+  DownloadManagerOptions,
+  DownloadOptions,
+} from "./DownloadManager";
+import {
+  DownloadTaskEvents,
+  DownloadTaskOptions,
+  DownloadTaskProgress,
+  DownloadTaskState,
+  MirrorDiagnostics,
+  RequestOptions,
+  StartOptions,
+} from "./DownloadTask";
+import type {
+  CallbackName,
+  CallbackResult,
+  EngineWorkerMessage,
+  EngineWorkerRequest,
+  JobEventName,
+  JobSnapshot,
+  TaskMethod,
+  TaskMethods,
+  TaskSnapshot,
+  WorkerRetryPolicy,
+  WorkerStorage,
+  WorkerTaskOptions,
+} from "./downloadWorker";
+import {
+  CanceledError,
+  DownloaderError,
+  ErrorData,
+  fromErrorData,
+  fromTaskEventData,
+  getErrorClass,
+  QuotaError,
+  toErrorData,
+} from "./errors";
+import { RetryPolicy } from "./retry";
+import { ensurePersistence } from "./quota";
+import {
+  DistributiveOmit,
+  generateId,
+  getFilenameFromUrl,
+} from "./utils";
+
+/* NOTE: The DownloadManager API, with the tasks, the queue and storage
+  running in a dedicated worker (downloadWorker.ts) so that chunk saving
+  and hashing never cause jank on the page. Jobs and tasks here are
+  proxies: their state and progress are copies, updated by the events the
+  worker posts, and their methods post to the real ones. A state change is
+  therefore visible once its event arrives, not right after the call.
+*/
+
+type RequestBody = DistributiveOmit<EngineWorkerRequest, "id">;
+type Send = (body: RequestBody) => Promise<unknown>;
+
+/**
+ * DownloadTaskOptions for jobs run in the worker. Its storage, rate
+ * limiter and transport belong to the worker and can't be set per job.
+ */
+export interface WorkerJobOptions
+  extends Omit<
+    DownloadTaskOptions,
+    "storage" | "rateLimiter" | "transport" | "resolveUrl"
+  > {
+  resolveUrl?: (task: WorkerDownloadTask) => string | Promise<string>;
+}
+
+export interface WorkerDownloadOptions
+  extends WorkerJobOptions,
+    Pick<DownloadOptions, "filename" | "id" | "priority"> {}
+
+export interface WorkerDownloadManagerOptions
+  extends Omit<DownloadManagerOptions, "storage"> {
+  /**
+   * Storage inside the worker: the shared IndexedDB `downloadStorage`
+   * (the default), an `OPFSStorage` or a `MemoryStorage`.
+   */
+  storage?: WorkerStorage;
+  /**
+   * The worker to run in, for bundlers that can't resolve the default
+   * `new Worker(new URL("./downloadWorker.ts", import.meta.url))`.
+   */
+  worker?: Worker;
+}
+
+// The callbacks given to the constructor, a createJob() or a restore()
+interface Callbacks {
+  getHeaders?: RequestOptions["getHeaders"];
+  refreshToken?: RequestOptions["refreshToken"];
+  resolveUrl?: WorkerJobOptions["resolveUrl"];
+}
+
+const NO_PROGRESS: DownloadTaskProgress & JobProgress = {
+  loaded: 0,
+  total: 0,
+  percent: 0,
+  speed: 0,
+  averageSpeed: 0,
+  eta: null,
+  elapsed: 0,
+};
+
+/**
+ * Mirrors a DownloadTask running in the worker. Created by
+ * WorkerDownloadManager; the events and methods are those of DownloadTask.
+ */
+export class WorkerDownloadTask extends EventEmitter<DownloadTaskEvents> {
+  readonly id: string;
+  url: string;
+  filename: string;
+  state: DownloadTaskState;
+  connections: number;
+  readonly mirrors: string[];
+  private progress: DownloadTaskProgress;
+  private bandwidthLimit: number | null;
+  private result: Promise<Blob> | null = null; // Settles with the current run
+  private send: Send;
+
+  constructor(snapshot: TaskSnapshot, send: Send, signal?: AbortSignal) {
+    super();
+    this.id = snapshot.id;
+    this.url = snapshot.url;
+    this.filename = snapshot.filename;
+    this.state = snapshot.state;
+    this.connections = snapshot.connections;
+    this.mirrors = snapshot.mirrors;
+    this.progress = snapshot.progress;
+    this.bandwidthLimit = snapshot.bandwidthLimit;
+    this.send = send;
+    if (signal) {
+      this.bindSignal(signal, false);
+    }
+  }
+
+  /** See DownloadTask.start(). */
+  start(options: StartOptions = {}): Promise<Blob> {
+    const result = this.done();
+    if (options.signal?.aborted) {
+      this.cancel();
+      return result;
+    }
+    if (options.signal) {
+      this.bindSignal(options.signal, true);
+    }
+    this.call("start");
+    return result;
+  }
+
+  /** See DownloadTask.done(). */
+  done(): Promise<Blob> {
+    if (this.result) return this.result;
+
+    const result = new Promise<Blob>((resolve, reject) => {
+      const settle = () => {
+        unsubscribe.forEach((off) => off());
+        this.result = null;
+      };
+      const unsubscribe = [
+        this.on("complete", (blob) => {
+          settle();
+          resolve(blob);
+        }),
+        this.on("error", (err) => {
+          settle();
+          reject(err);
+        }),
+        this.on("cancel", () => {
+          settle();
+          reject(new CanceledError());
+        }),
+      ];
+    });
+    result.catch(() => {});
+    this.result = result;
+    return result;
+  }
+
+  getProgress(): DownloadTaskProgress {
+    return { ...this.progress };
+  }
+
+  pause() {
+    this.call("pause");
+  }
+
+  resume() {
+    this.call("resume");
+  }
+
+  async cancel() {
+    await this.invoke("cancel");
+  }
+
+  getBandwidthLimit(): number | null {
+    return this.bandwidthLimit;
+  }
+
+  setBandwidthLimit(bytesPerSecond: number | null) {
+    this.bandwidthLimit = bytesPerSecond;
+    this.call("setBandwidthLimit", bytesPerSecond);
+  }
+
+  verifyAndRepair(): Promise<number[]> {
+    return this.invoke("verifyAndRepair");
+  }
+
+  /** Asynchronous here, since the diagnostics are kept in the worker. */
+  getMirrorDiagnostics(): Promise<MirrorDiagnostics[]> {
+    return this.invoke("getMirrorDiagnostics");
+  }
+
+  /** Called by WorkerDownloadManager with each event the task posts. */
+  handleEvent<K extends keyof DownloadTaskEvents>(
+    event: K,
+    payload: unknown,
+    snapshot: TaskSnapshot,
+  ) {
+    this.url = snapshot.url;
+    this.state = snapshot.state;
+    this.progress = snapshot.progress;
+    this.bandwidthLimit = snapshot.bandwidthLimit;
+
+    this.emit(event, fromTaskEventData(event, payload));
+  }
+
+  private bindSignal(signal: AbortSignal, untilDone: boolean) {
+    const onAbort = () =>
+      this.cancel().catch((err) =>
+        console.error("WorkerDownloadTask: cancel() failed.", err),
+      );
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    if (untilDone) {
+      const release = () => signal.removeEventListener("abort", onAbort);
+      this.done().then(release, release);
+    }
+  }
+
+  /** Calls `method` on the task in the worker and returns its result. */
+  private async invoke<M extends TaskMethod>(
+    method: M,
+    ...args: TaskMethods[M]["args"]
+  ): Promise<TaskMethods[M]["result"]> {
+    // The args fit `method`, which TypeScript can't follow into the union
+    const body = { type: "task", taskId: this.id, method, args } as RequestBody;
+    // The worker answers with what the method of that name returned
+    return (await this.send(body)) as TaskMethods[M]["result"];
+  }
+
+  private call<M extends TaskMethod>(
+    method: M,
+    ...args: TaskMethods[M]["args"]
+  ) {
+    this.invoke(method, ...args).catch((err) =>
+      console.error(`WorkerDownloadTask: ${method}() failed.`, err),
+    );
+  }
+}
+
+/**
+ * Mirrors a DownloadJob running in the worker. Created by
+ * WorkerDownloadManager; the events and methods are those of DownloadJob.
+ */
+export class WorkerDownloadJob extends EventEmitter<
+  DownloadJobEvents<WorkerDownloadTask>
+> {
+  readonly id: string;
+  readonly tasks: WorkerDownloadTask[];
+  readonly createdAt: number;
+  private currentState: DownloadJobState;
+  private progress: JobProgress;
+  private started = false;
+  // Kept for done(), as in DownloadJob
+  private results: Map<WorkerDownloadTask, Blob> = new Map();
+  private errors: Map<WorkerDownloadTask, Error> = new Map();
+  private send: Send;
+
+  constructor(snapshot: JobSnapshot, tasks: WorkerDownloadTask[], send: Send) {
+    super();
+    this.id = snapshot.id;
+    this.tasks = tasks;
+    this.createdAt = snapshot.createdAt;
+    this.currentState = snapshot.state;
+    this.progress = snapshot.progress;
+    this.send = send;
+    this.attachTaskEvents();
+  }
+
+  get state(): DownloadJobState {
+    return this.currentState;
+  }
+
+  pause() {
+    this.call("pause");
+  }
+
+  resume() {
+    this.call("resume");
+  }
+
+  cancel() {
+    this.call("cancel");
+  }
+
+  retryFailed() {
+    this.call("retryFailed");
+  }
+
+  getProgress(): JobProgress {
+    return { ...this.progress };
+  }
+
+  getSummary(): JobSummary<WorkerDownloadTask> {
+    const tasks = this.getOutcomes();
+    const count = (status: TaskOutcome["status"]) =>
+      tasks.filter((t) => t.status === status).length;
+    return {
+      state: this.state,
+      tasks,
+      completed: count("completed"),
+      failed: count("failed"),
+      canceled: count("canceled"),
+      bytes: tasks.reduce((sum, t) => sum + t.bytes, 0),
+    };
+  }
+
+  /** See DownloadJob.done(). */
+  done(): Promise<TaskOutcome<WorkerDownloadTask>[]> {
+    return new Promise((resolve) => {
+      const check = () => {
+        if (!this.isSettled()) return;
+        unsubscribe.forEach((off) => off());
+        resolve(this.getOutcomes());
+      };
+      const unsubscribe = [
+        this.on("taskComplete", check),
+        this.on("taskError", check),
+        ...this.tasks.map((task) => task.on("cancel", check)),
+      ];
+      check();
+    });
+  }
+
+  /** Called by WorkerDownloadManager with each event the job posts. */
+  handleEvent(
+    event: JobEventName,
+    state: DownloadJobState,
+    progress: JobProgress,
+    error?: ErrorData,
+  ) {
+    this.currentState = state;
+    this.progress = progress;
+    switch (event) {
+      case "start":
+        // Derived from the tasks below, in the order DownloadJob emits it
+        break;
+      case "progress":
+        this.emit("progress", this.getProgress());
+        break;
+      case "stateChange":
+        this.emit("stateChange", state);
+        break;
+      case "complete":
+        this.emit("complete", this.getSummary());
+        break;
+      case "quotaExceeded":
+        this.emit("quotaExceeded", fromErrorData(error!) as QuotaError);
+        break;
+    }
+  }
+
+  private attachTaskEvents() {
+    for (const task of this.tasks) {
+      task.on("start", () => {
+        this.results.delete(task);
+        this.errors.delete(task);
+        if (!this.started) {
+          this.started = true;
+          this.emit("start");
+        }
+        this.emit("taskStart", task);
+      });
+      task.on("progress", (progress) =>
+        this.emit("taskProgress", { task, progress }),
+      );
+      task.on("complete", (blob) => {
+        this.results.set(task, blob);
+        this.emit("taskComplete", { task, blob });
+      });
+      task.on("error", (error) => {
+        this.errors.set(task, error);
+        this.emit("taskError", { task, error });
+      });
+      task.on("retry", (retry) => this.emit("taskRetry", { task, retry }));
+      task.on("quotaExceeded", (error) =>
+        this.emit("taskQuotaExceeded", { task, error }),
+      );
+    }
+  }
+
+  private getOutcomes(): TaskOutcome<WorkerDownloadTask>[] {
+    return this.tasks.map((task): TaskOutcome<WorkerDownloadTask> => {
+      const bytes = task.getProgress().loaded;
+      if (task.state === "completed") {
+        return {
+          task,
+          status: "completed",
+          result: this.results.get(task) ?? null,
+          bytes,
+        };
+      }
+      if (task.state === "error") {
+        return {
+          task,
+          status: "failed",
+          error: this.errors.get(task) ?? null,
+          bytes,
+        };
+      }
+      return { task, status: "canceled", bytes };
+    });
+  }
+
+  private isSettled(): boolean {
+    return this.tasks.every(
+      (t) =>
+        t.state === "completed" ||
+        t.state === "error" ||
+        t.state === "canceled",
+    );
+  }
+
+  private call(method: "pause" | "resume" | "cancel" | "retryFailed") {
+    this.send({ type: "job", jobId: this.id, method }).catch((err) =>
+      console.error(`WorkerDownloadJob: ${method}() failed.`, err),
+    );
+  }
+}
+
+export class WorkerDownloadManager extends EventEmitter<
+  DownloadManagerEvents<WorkerDownloadJob, WorkerDownloadTask>
+> {
+  private worker: Worker;
+  private nextRequestId = 0;
+  private pending: Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (err: Error) => void }
+  > = new Map();
+  private jobs: Map<string, WorkerDownloadJob> = new Map();
+  private tasks: Map<string, WorkerDownloadTask> = new Map();
+  // By scope: "manager", a job id, or a restore() call
+  private callbacks: Map<string, Callbacks> = new Map();
+  private nextRestoreId = 0;
+  private bandwidthLimit: number | null;
+  private persistStorage: boolean;
+  private send: Send = (body) => this.request(body);
+
+  constructor(concurrency = 2, options: WorkerDownloadManagerOptions = {}) {
+    super();
+    const {
+      worker,
+      storage,
+      preemption,
+      maxBytesPerSecond,
+      persistStorage,
+      ...rest
+    } = options;
+    this.worker =
+      worker ??
+      new Worker(new URL("./downloadWorker.ts", import.meta.url), {
+        type: "module",
+      });
+    this.worker.onmessage = (e: MessageEvent<EngineWorkerMessage[]>) =>
+      e.data.forEach((message) => this.handleMessage(message));
+    this.bandwidthLimit = maxBytesPerSecond ?? null;
+    // Workers can't ask for it, so the page does
+    this.persistStorage = persistStorage ?? false;
+
+    const split = splitOptions(rest);
+    this.callbacks.set("manager", split.callbacks);
+    this.call({
+      type: "init",
+      concurrency,
+      options: { ...split.options, storage, preemption, maxBytesPerSecond },
+      callbacks: getCallbackNames(split.callbacks),
+    });
+
+    // Ensure proper cleanup on page unload
+    if (typeof window !== "undefined") {
+      window.addEventListener("beforeunload", () => {
+        this.call({ type: "manager", method: "unload", args: [] });
+      });
+    }
+  }
+
+  /** See DownloadManager.createJob(). */
+  createJob(
+    urls: (string | string[])[],
+    filenames: string[],
+    options: WorkerJobOptions = {},
+    taskIds: string[] = [],
+  ): WorkerDownloadJob {
+    const id = generateId();
+    const ids = urls.map((_, i) => taskIds[i] ?? generateId());
+    const split = splitOptions(options);
+    this.callbacks.set(id, split.callbacks);
+
+    // The worker creates the real job from the same ids, so until its
+    // first event this is what the job will look like
+    const job = this.trackJob(
+      {
+        id,
+        createdAt: Date.now(),
+        state: "queued",
+        progress: { ...NO_PROGRESS },
+        tasks: urls.map((u, i) => {
+          const [url, ...mirrors] = Array.isArray(u) ? u : [u];
+          return {
+            id: ids[i],
+            url,
+            filename: filenames[i],
+            mirrors: mirrors.length ? mirrors : (options.mirrors ?? []),
+            connections: Math.max(1, Math.floor(options.connections ?? 1)),
+            state: "idle",
+            progress: { ...NO_PROGRESS },
+            bandwidthLimit: options.maxBytesPerSecond ?? null,
+          };
+        }),
+      },
+      options.signal,
+    );
+    this.call({
+      type: "createJob",
+      jobId: id,
+      urls,
+      filenames,
+      options: split.options,
+      taskIds: ids,
+      callbacks: getCallbackNames(split.callbacks),
+    });
+    this.emit("jobCreated", job);
+    return job;
+  }
+
+  /** See DownloadManager.download(). */
+  download(
+    url: string | string[],
+    options: WorkerDownloadOptions = {},
+  ): Promise<Blob> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new CanceledError());
+    }
+    const { filename, id, priority, ...taskOptions } = options;
+    const primary = Array.isArray(url) ? url[0] : url;
+    const job = this.createJob(
+      [url],
+      [filename ?? getFilenameFromUrl(primary)],
+      taskOptions,
+      id ? [id] : [],
+    );
+    const result = job.tasks[0].done();
+    this.startJob(job, priority);
+    return result;
+  }
+
+  /** See DownloadManager.restore(). */
+  async restore(options: WorkerJobOptions = {}): Promise<WorkerDownloadJob[]> {
+    const scope = `restore-${this.nextRestoreId++}`;
+    const split = splitOptions(options);
+    this.callbacks.set(scope, split.callbacks);
+
+    const snapshots = (await this.request({
+      type: "restore",
+      scope,
+      options: split.options,
+      callbacks: getCallbackNames(split.callbacks),
+    })) as JobSnapshot[];
+    return snapshots.map((snapshot) =>
+      this.trackJob(snapshot, options.signal),
+    );
+  }
+
+  startJob(job: WorkerDownloadJob, priority?: number) {
+    if (this.persistStorage) ensurePersistence();
+    this.call({
+      type: "manager",
+      method: "startJob",
+      args: [job.id, priority],
+    });
+  }
+
+  setJobPriority(job: WorkerDownloadJob, priority: number) {
+    this.call({
+      type: "manager",
+      method: "setJobPriority",
+      args: [job.id, priority],
+    });
+  }
+
+  moveJobToFront(job: WorkerDownloadJob) {
+    this.call({ type: "manager", method: "moveJobToFront", args: [job.id] });
+  }
+
+  moveJobToBack(job: WorkerDownloadJob) {
+    this.call({ type: "manager", method: "moveJobToBack", args: [job.id] });
+  }
+
+  pauseJob(job: WorkerDownloadJob) {
+    job.pause();
+  }
+
+  resumeJob(job: WorkerDownloadJob) {
+    job.resume();
+  }
+
+  cancelJob(job: WorkerDownloadJob) {
+    job.cancel();
+  }
+
+  retryFailedJob(job: WorkerDownloadJob) {
+    job.retryFailed();
+  }
+
+  getBandwidthLimit(): number | null {
+    return this.bandwidthLimit;
+  }
+
+  setBandwidthLimit(bytesPerSecond: number | null) {
+    this.bandwidthLimit = bytesPerSecond;
+    this.call({
+      type: "manager",
+      method: "setBandwidthLimit",
+      args: [bytesPerSecond],
+    });
+  }
+
+  pauseAll() {
+    this.call({ type: "manager", method: "pauseAll", args: [] });
+  }
+
+  resumeAll() {
+    this.call({ type: "manager", method: "resumeAll", args: [] });
+  }
+
+  /**
+   * Stops the worker, and every download with it. Unlike pauseAll(),
+   * running chunks aren't saved first.
+   */
+  terminate() {
+    this.worker.terminate();
+    for (const { reject } of this.pending.values()) {
+      reject(new DownloaderError("Download worker terminated"));
+    }
+    this.pending.clear();
+  }
+
+  private trackJob(
+    snapshot: JobSnapshot,
+    signal?: AbortSignal,
+  ): WorkerDownloadJob {
+    const tasks = snapshot.tasks.map((taskSnapshot) => {
+      const task = new WorkerDownloadTask(taskSnapshot, this.send, signal);
+      this.tasks.set(task.id, task);
+      return task;
+    });
+    const job = new WorkerDownloadJob(snapshot, tasks, this.send);
+    this.jobs.set(job.id, job);
+    this.attachJobEvents(job);
+    return job;
+  }
+
+  private attachJobEvents(job: WorkerDownloadJob) {
+    job.on("start", () => this.emit("jobStart", job));
+    job.on("progress", (progress) =>
+      this.emit("jobProgress", { job, progress }),
+    );
+    job.on("stateChange", (state) =>
+      this.emit("jobStateChange", { job, state }),
+    );
+    job.on("complete", () => this.emit("jobComplete", job));
+    job.on("taskStart", (task) => this.emit("taskStart", { job, task }));
+    job.on("taskComplete", ({ task, blob }) =>
+      this.emit("taskComplete", { job, task, blob }),
+    );
+    job.on("taskError", ({ task, error }) =>
+      this.emit("taskError", { job, task, error }),
+    );
+    job.on("taskRetry", ({ task, retry }) =>
+      this.emit("taskRetry", { job, task, retry }),
+    );
+    job.on("taskQuotaExceeded", ({ task, error }) =>
+      this.emit("taskQuotaExceeded", { job, task, error }),
+    );
+    job.on("quotaExceeded", (error) =>
+      this.emit("jobQuotaExceeded", { job, error }),
+    );
+  }
+
+  // --- Worker Plumbing ---
+
+  private handleMessage(message: EngineWorkerMessage) {
+    switch (message.type) {
+      case "response": {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+        this.pending.delete(message.id);
+        if (message.error) {
+          pending.reject(fromErrorData(message.error));
+        } else {
+          pending.resolve(message.value);
+        }
+        break;
+      }
+      case "taskEvent":
+        this.tasks
+          .get(message.taskId)
+          ?.handleEvent(message.event, message.payload, message.snapshot);
+        break;
+      case "jobEvent":
+        this.jobs
+          .get(message.jobId)
+          ?.handleEvent(
+            message.event,
+            message.state,
+            message.progress,
+            message.error,
+          );
+        break;
+      case "managerEvent":
+        this.emit(message.event);
+        break;
+      case "callback":
+        this.runCallback(
+          message.callId,
+          message.scope,
+          message.name,
+          message.taskId,
+        );
+        break;
+    }
+  }
+
+  private async runCallback(
+    callId: number,
+    scope: string,
+    name: CallbackName,
+    taskId: string | null,
+  ) {
+    const result: CallbackResult = { type: "callbackResult", callId };
+    try {
+      const callbacks = this.callbacks.get(scope) ?? {};
+      if (name === "resolveUrl") {
+        const task = this.tasks.get(taskId!);
+        if (!callbacks.resolveUrl || !task) {
+          throw new DownloaderError("resolveUrl() is not available");
+        }
+        result.value = await callbacks.resolveUrl(task);
+      } else {
+        const callback = callbacks[name];
+        if (!callback) {
+          throw new DownloaderError(`${name}() is not available`);
+        }
+        result.value = await callback();
+      }
+    } catch (err) {
+      result.error = toErrorData(err);
+    }
+    this.worker.postMessage(result);
+  }
+
+  private request(body: RequestBody): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextRequestId++;
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...body, id });
+    });
+  }
+
+  /** For requests nobody waits on; failures are only logged. */
+  private call(body: RequestBody) {
+    this.request(body).catch((err) =>
+      console.error(`WorkerDownloadManager: ${body.type} failed.`, err),
+    );
+  }
+}
+
+/**
+ * Separates the callbacks, which stay on the page, from the options that
+ * can be posted to the worker. Error classes are posted by name.
+ */
+function splitOptions(options: WorkerJobOptions): {
+  options: WorkerTaskOptions;
+  callbacks: Callbacks;
+} {
+  const { signal, resolveUrl, retryPolicy, request, ...rest } = options;
+  const { getHeaders, refreshToken, ...requestRest } = request ?? {};
+  return {
+    options: {
+      ...rest,
+      ...(retryPolicy && { retryPolicy: toWorkerRetryPolicy(retryPolicy) }),
+      ...(request && { request: requestRest }),
+    },
+    callbacks: { getHeaders, refreshToken, resolveUrl },
+  };
+}
+
+function toWorkerRetryPolicy(policy: RetryPolicy): WorkerRetryPolicy {
+  const { retryableErrors, ...rest } = policy;
+  if (!retryableErrors) return rest;
+  return {
+    ...rest,
+    retryableErrors: retryableErrors.map(({ name }) => {
+      if (!getErrorClass(name)) {
+        console.warn(
+          `WorkerDownloadManager: ${name} isn't one of the SDK's errors, so the worker can't retry it.`,
+        );
+      }
+      return name;
+    }),
+  };
+}
+
+function getCallbackNames(callbacks: Callbacks): CallbackName[] {
+  return (Object.keys(callbacks) as CallbackName[]).filter(
+    (name) => callbacks[name],
+  );
+}
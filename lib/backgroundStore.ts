@@ -0,0 +1,167 @@
+import { ErrorData } from "./errors";
+
+/* NOTE: What downloadServiceWorker.ts and BackgroundDownloads.ts share:
+  the messages between them and the download records and files both keep
+  in Cache Storage. Kept apart, so that pages don't load the service
+  worker's engine and the service worker doesn't load the page API.
+*/
+
+export const DOWNLOADS_CACHE = "background-downloads";
+export const DEFAULT_URL_PREFIX = "/background-downloads/";
+// Tags messages between pages and the service worker as ours, and names
+// the Background Sync registration
+export const MESSAGE_TARGET = "background-downloads";
+
+export type BackgroundDownloadMode = "background-fetch" | "service-worker";
+
+export type BackgroundDownloadState =
+  "queued" | "downloading" | "paused" | "completed" | "failed" | "canceled";
+
+/** What is known about a background download. Kept next to its file. */
+export interface BackgroundDownloadInfo {
+  id: string;
+  url: string;
+  filename: string;
+  mode: BackgroundDownloadMode;
+  state: BackgroundDownloadState;
+  loaded: number;
+  total: number; // 0 while unknown
+  error?: ErrorData; // Why it failed
+  createdAt: number;
+}
+
+/** Request options for downloads run by the service worker itself. */
+export interface BackgroundRequestOptions {
+  /**
+   * Sent with every request. Not persisted, so a download resumed after
+   * the service worker restarted goes without them.
+   */
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  /** See DownloadTaskOptions. */
+  connections?: number;
+  expectedDigest?: string;
+}
+
+export type ServiceWorkerRequest =
+  | {
+      type: "start";
+      info: BackgroundDownloadInfo;
+      options: BackgroundRequestOptions;
+    }
+  | { type: "list" }
+  | { type: "pause" | "resume" | "cancel" | "remove"; id: string };
+
+/** Sent back on the MessagePort that came with the request. */
+export interface ServiceWorkerResponse {
+  value?: unknown;
+  error?: ErrorData;
+}
+
+export type ServiceWorkerMessage =
+  | { target: typeof MESSAGE_TARGET; request: ServiceWorkerRequest }
+  // Posted to every window whenever a download changes
+  | { target: typeof MESSAGE_TARGET; download: BackgroundDownloadInfo };
+
+// Minimal shapes of the Background Fetch API, which the "dom" lib lacks
+
+export interface BackgroundFetchRecord {
+  request: Request;
+  responseReady: Promise<Response>;
+}
+
+export interface BackgroundFetchRegistration extends EventTarget {
+  id: string;
+  downloadTotal: number;
+  downloaded: number;
+  result: "" | "success" | "failure";
+  failureReason: string;
+  abort(): Promise<boolean>;
+  matchAll(): Promise<BackgroundFetchRecord[]>;
+}
+
+export interface BackgroundFetchManager {
+  fetch(
+    id: string,
+    requests: Request[],
+    options?: { title?: string; downloadTotal?: number },
+  ): Promise<BackgroundFetchRegistration>;
+  get(id: string): Promise<BackgroundFetchRegistration | undefined>;
+}
+
+// --- Stored Downloads ---
+// Cache Storage is shared by the service worker and its pages, so both
+// read and write the info records and files here.
+
+export function getFileUrl(id: string, urlPrefix = DEFAULT_URL_PREFIX) {
+  return `${urlPrefix}${encodeURIComponent(id)}`;
+}
+
+function getInfoUrl(id: string, urlPrefix: string) {
+  return `${getFileUrl(id, urlPrefix)}?info`;
+}
+
+export async function saveInfo(
+  info: BackgroundDownloadInfo,
+  urlPrefix = DEFAULT_URL_PREFIX,
+): Promise<void> {
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  await cache.put(
+    getInfoUrl(info.id, urlPrefix),
+    new Response(JSON.stringify(info), {
+      headers: { "Content-Type": "application/json" },
+    }),
+  );
+}
+
+export async function getInfo(
+  id: string,
+  urlPrefix = DEFAULT_URL_PREFIX,
+): Promise<BackgroundDownloadInfo | undefined> {
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  const response = await cache.match(getInfoUrl(id, urlPrefix));
+  return response?.json();
+}
+
+/** Every download stored under `urlPrefix`, oldest first. */
+export async function getInfos(
+  urlPrefix = DEFAULT_URL_PREFIX,
+): Promise<BackgroundDownloadInfo[]> {
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  const infos: BackgroundDownloadInfo[] = [];
+  for (const request of await cache.keys()) {
+    const url = new URL(request.url);
+    if (url.search !== "?info" || !url.pathname.startsWith(urlPrefix)) {
+      continue;
+    }
+    const response = await cache.match(request);
+    if (response) infos.push(await response.json());
+  }
+  return infos.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveFile(
+  info: BackgroundDownloadInfo,
+  body: Blob | ReadableStream<Uint8Array> | null,
+  headers: Record<string, string>,
+  urlPrefix: string,
+) {
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  const filename = encodeURIComponent(info.filename);
+  await cache.put(
+    getFileUrl(info.id, urlPrefix),
+    new Response(body, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        ...headers,
+        "Content-Disposition": `attachment; filename*=UTF-8''${filename}`,
+      },
+    }),
+  );
+}
+
+export async function removeFiles(id: string, urlPrefix: string) {
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  await cache.delete(getFileUrl(id, urlPrefix));
+  await cache.delete(getInfoUrl(id, urlPrefix));
+}
@@ -0,0 +1,542 @@
+import {
+  BackgroundDownloadInfo,
+  BackgroundDownloadState,
+  BackgroundFetchManager,
+  BackgroundFetchRegistration,
+  BackgroundRequestOptions,
+  DEFAULT_URL_PREFIX,
+  DOWNLOADS_CACHE,
+  getInfo,
+  getInfos,
+  MESSAGE_TARGET,
+  removeFiles,
+  saveFile,
+  saveInfo,
+  ServiceWorkerMessage,
+  ServiceWorkerRequest,
+  ServiceWorkerResponse,
+} from "./backgroundStore";
+import { DownloadJob, DownloadJobState } from "./DownloadJob";
+import { DownloadManager } from "./DownloadManager";
+import { DownloadTaskState } from "./DownloadTask";
+import { DownloaderError, HttpError, QuotaError, toErrorData } from "./errors";
+import { IndexedDBStorage, StorageAdapter } from "./storage";
+
+/* NOTE: Downloads that outlive the page. Call installDownloadHandlers(self)
+  from the app's service worker script. Where the browser has Background
+  Fetch, the page hands downloads to it and the service worker only stores
+  the results. Elsewhere the service worker runs a DownloadManager of its
+  own. Its jobs are persisted in its storage, so a download the browser
+  stopped along with the service worker is resumed the next time it wakes
+  up: for a message, a fetch, or a Background Sync once the network is back.
+  Finished files are kept in Cache Storage and served under `urlPrefix`.
+*/
+
+const ENGINE_DB_NAME = "backgroundDownloaderDB";
+
+export interface DownloadServiceWorkerOptions {
+  /** Path the finished files are served under. Pages must use the same. */
+  urlPrefix?: string;
+  /** Downloads the service worker runs at once. Defaults to 2. */
+  concurrency?: number;
+  /**
+   * Where the service worker keeps its jobs and chunks. Defaults to an
+   * IndexedDB database of its own, `backgroundDownloaderDB`: a page whose
+   * DownloadManager restores the shared `downloadStorage` would otherwise
+   * pick up the service worker's jobs as its own. Pass `downloadStorage`
+   * to share it anyway, e.g. to hand a page's download over: started with
+   * the id of the page's task, it continues from that task's chunks.
+   */
+  storage?: StorageAdapter;
+}
+
+// Minimal shapes of the service worker events, including Background
+// Fetch's. Their types live in the "webworker" lib, which can't be loaded
+// next to "dom".
+
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: unknown;
+  ports: readonly MessagePort[];
+}
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+interface BackgroundFetchEvent extends ExtendableEvent {
+  registration: BackgroundFetchRegistration;
+  updateUI?(options: { title?: string }): Promise<void>;
+}
+
+// The events handled here, by type
+interface ServiceWorkerEvents {
+  activate: ExtendableEvent;
+  sync: SyncEvent;
+  fetch: FetchEvent;
+  message: ExtendableMessageEvent;
+  backgroundfetchsuccess: BackgroundFetchEvent;
+  backgroundfetchfail: BackgroundFetchEvent;
+  backgroundfetchabort: BackgroundFetchEvent;
+  backgroundfetchclick: BackgroundFetchEvent;
+}
+
+/** The parts of `ServiceWorkerGlobalScope` used here. */
+export interface ServiceWorkerScope {
+  location: { origin: string };
+  registration: { scope: string; backgroundFetch?: BackgroundFetchManager };
+  clients: {
+    matchAll(options: {
+      type: "window";
+      includeUncontrolled: boolean;
+    }): Promise<readonly { postMessage(message: unknown): void }[]>;
+    openWindow(url: string): Promise<unknown>;
+  };
+  addEventListener<K extends keyof ServiceWorkerEvents>(
+    type: K,
+    listener: (event: ServiceWorkerEvents[K]) => void,
+  ): void;
+}
+
+function isFinished(state: DownloadJobState) {
+  return (
+    state === "completed" ||
+    state === "canceled" ||
+    state === "partially_failed"
+  );
+}
+
+function toBackgroundState(
+  state: DownloadTaskState,
+): BackgroundDownloadState | null {
+  switch (state) {
+    case "fetching_metadata":
+    case "downloading":
+    case "assembling":
+      return "downloading";
+    case "paused":
+      return "paused";
+    case "error":
+      return "failed";
+    case "canceled":
+      return "canceled";
+    default:
+      // "completed" is reported once the file is stored, and "idle" says
+      // nothing about whether a download was paused or is still queued
+      return null;
+  }
+}
+
+// --- Service Worker ---
+
+/**
+ * Runs the downloads that aren't left to Background Fetch. One instance
+ * lives as long as the service worker does.
+ */
+class ServiceWorkerEngine {
+  private scope: ServiceWorkerScope;
+  private urlPrefix: string;
+  private concurrency: number;
+  private storage: StorageAdapter;
+  private manager: DownloadManager | null = null;
+  private jobs: Map<string, DownloadJob> = new Map();
+  private infos: Map<string, BackgroundDownloadInfo> = new Map();
+  private restoring: Promise<Promise<unknown>[]> | null = null;
+
+  constructor(
+    scope: ServiceWorkerScope,
+    urlPrefix: string,
+    concurrency: number,
+    storage: StorageAdapter,
+  ) {
+    this.scope = scope;
+    this.urlPrefix = urlPrefix;
+    this.concurrency = concurrency;
+    this.storage = storage;
+  }
+
+  /**
+   * Picks up the downloads a previous run of the service worker left
+   * unfinished. Settles when the resumed ones are done.
+   */
+  async resumeInterrupted(): Promise<void> {
+    await Promise.allSettled(await this.restore());
+  }
+
+  /**
+   * Settles when the download is done. If one with the same id is
+   * already queued, running or paused, that one is kept instead.
+   */
+  async start(
+    info: BackgroundDownloadInfo,
+    options: BackgroundRequestOptions,
+  ): Promise<void> {
+    await this.restore();
+    const running = this.jobs.get(info.id);
+    if (running && !isFinished(running.state)) {
+      // The page expects to hear from it, e.g. after resending a start
+      await this.broadcast(this.infos.get(info.id) ?? info);
+      await running.done();
+      return;
+    }
+    const { headers, withCredentials, ...taskOptions } = options;
+    const job = this.getManager().createJob(
+      [info.url],
+      [info.filename],
+      { ...taskOptions, request: { headers, withCredentials } },
+      [info.id],
+      info.id,
+    );
+    this.track(job, info);
+    await this.save(info);
+    this.getManager().startJob(job);
+    await job.done();
+  }
+
+  async list(): Promise<BackgroundDownloadInfo[]> {
+    await this.restore();
+    const infos = await getInfos(this.urlPrefix);
+    // Progress of running downloads isn't stored, so it's taken from here
+    return infos.map((info) => this.infos.get(info.id) ?? info);
+  }
+
+  async pause(id: string) {
+    const job = await this.getJob(id);
+    job.pause();
+    await this.update(id, { state: "paused" });
+  }
+
+  async resume(id: string) {
+    const job = await this.getJob(id);
+    await this.update(id, { state: "queued" });
+    job.resume();
+  }
+
+  async cancel(id: string) {
+    (await this.getJob(id)).cancel();
+  }
+
+  /** Cancels the download if it is running, and deletes its file. */
+  async remove(id: string) {
+    await this.restore();
+    const job = this.jobs.get(id);
+    if (job && job.state !== "completed") {
+      job.cancel();
+    }
+    this.jobs.delete(id);
+    this.infos.delete(id);
+    await removeFiles(id, this.urlPrefix);
+  }
+
+  private getManager(): DownloadManager {
+    this.manager ??= new DownloadManager(this.concurrency, {
+      storage: this.storage,
+    });
+    return this.manager;
+  }
+
+  // Restores the jobs once per run of the service worker, and starts the
+  // ones that were running or waiting. Settles with their results.
+  private restore(): Promise<Promise<unknown>[]> {
+    this.restoring ??= this.getManager()
+      .restore()
+      .then(async (jobs) => {
+        const running: Promise<unknown>[] = [];
+        for (const job of jobs) {
+          const info = await getInfo(job.id, this.urlPrefix);
+          // A page's job, when the storage is shared
+          if (!info) continue;
+          this.track(job, info);
+          // Failed ones would only fail again, e.g. on a 404
+          if (info.state === "queued" || info.state === "downloading") {
+            this.getManager().startJob(job);
+            running.push(job.done());
+          }
+        }
+        return running;
+      });
+    return this.restoring;
+  }
+
+  private async getJob(id: string): Promise<DownloadJob> {
+    await this.restore();
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new DownloaderError(`No download "${id}" in the service worker`);
+    }
+    return job;
+  }
+
+  private track(job: DownloadJob, info: BackgroundDownloadInfo) {
+    this.jobs.set(job.id, job);
+    this.infos.set(job.id, info);
+    const [task] = job.tasks;
+
+    task.on("stateChange", (state) => {
+      const next = toBackgroundState(state);
+      // A job that was paused keeps saying so while its task waits
+      if (next && next !== this.infos.get(job.id)?.state) {
+        this.update(job.id, { state: next });
+      }
+    });
+    task.on("progress", ({ loaded, total }) => {
+      const current = this.infos.get(job.id);
+      if (!current) return;
+      const updated = { ...current, loaded, total };
+      this.infos.set(job.id, updated);
+      this.broadcast(updated); // Too frequent to store each time
+    });
+    task.on("error", (error) => {
+      this.update(job.id, { state: "failed", error: toErrorData(error) });
+    });
+    // Paused before its task started, as the file doesn't fit
+    job.on("quotaExceeded", () => this.update(job.id, { state: "paused" }));
+    task.on("complete", async (blob) => {
+      try {
+        await saveFile(
+          info,
+          blob,
+          { "Content-Length": String(blob.size) },
+          this.urlPrefix,
+        );
+        await this.update(job.id, {
+          state: "completed",
+          loaded: blob.size,
+          total: blob.size,
+        });
+      } catch (err) {
+        const error =
+          err.name === "QuotaExceededError" ? new QuotaError() : err;
+        await this.update(job.id, {
+          state: "failed",
+          error: toErrorData(error),
+        });
+      }
+    });
+  }
+
+  private async update(id: string, changes: Partial<BackgroundDownloadInfo>) {
+    const current = this.infos.get(id);
+    if (!current) return;
+    const updated = { ...current, ...changes };
+    this.infos.set(id, updated);
+    await this.save(updated);
+  }
+
+  private async save(info: BackgroundDownloadInfo) {
+    try {
+      await saveInfo(info, this.urlPrefix);
+    } catch (err) {
+      console.warn("ServiceWorkerEngine: Failed to save download info.", err);
+    }
+    await this.broadcast(info);
+  }
+
+  /** Tells every open window about the download. */
+  async broadcast(info: BackgroundDownloadInfo) {
+    const message: ServiceWorkerMessage = {
+      target: MESSAGE_TARGET,
+      download: info,
+    };
+    const clients = await this.scope.clients.matchAll({
+      type: "window",
+      includeUncontrolled: true,
+    });
+    clients.forEach((client) => client.postMessage(message));
+  }
+}
+
+/**
+ * Serves finished downloads under `urlPrefix`, runs the downloads pages
+ * hand over, and stores what Background Fetch downloaded. Call it from
+ * your service worker script with its global scope, e.g.
+ * `installDownloadHandlers(self)`.
+ */
+export function installDownloadHandlers(
+  scope: ServiceWorkerScope,
+  options: DownloadServiceWorkerOptions = {},
+) {
+  const urlPrefix = options.urlPrefix ?? DEFAULT_URL_PREFIX;
+  const engine = new ServiceWorkerEngine(
+    scope,
+    urlPrefix,
+    options.concurrency ?? 2,
+    options.storage ?? new IndexedDBStorage(ENGINE_DB_NAME),
+  );
+  // Any event may be the first since the browser stopped the worker
+  const wake = (event: ExtendableEvent) =>
+    event.waitUntil(engine.resumeInterrupted());
+
+  scope.addEventListener("activate", wake);
+
+  scope.addEventListener("sync", (event: SyncEvent) => {
+    if (event.tag === MESSAGE_TARGET) wake(event);
+  });
+
+  scope.addEventListener("fetch", (event: FetchEvent) => {
+    // Not through waitUntil(), which would keep every fetch event open
+    // until the resumed downloads are done
+    engine
+      .resumeInterrupted()
+      .catch((err) =>
+        console.error("Failed to resume background downloads.", err),
+      );
+    const url = new URL(event.request.url);
+    if (
+      event.request.method !== "GET" ||
+      url.origin !== scope.location.origin ||
+      !url.pathname.startsWith(urlPrefix) ||
+      url.search
+    ) {
+      return;
+    }
+    event.respondWith(
+      caches
+        .open(DOWNLOADS_CACHE)
+        .then((cache) => cache.match(url.href))
+        .then(
+          (response) =>
+            response ?? new Response("Download not found", { status: 404 }),
+        ),
+    );
+  });
+
+  scope.addEventListener("message", (event: ExtendableMessageEvent) => {
+    const data = event.data as ServiceWorkerMessage | null;
+    if (data?.target !== MESSAGE_TARGET || !("request" in data)) return;
+    wake(event);
+
+    const request = data.request;
+    const reply = (response: ServiceWorkerResponse) =>
+      event.ports[0]?.postMessage(response);
+    if (request.type === "start") {
+      // Keeps the service worker alive while it downloads, as far as the
+      // browser allows; if it is stopped, resumeInterrupted() continues
+      const done = engine.start(request.info, request.options);
+      done.catch((err) => console.error("Background download failed.", err));
+      reply({});
+      event.waitUntil(done.catch(() => {}));
+      return;
+    }
+    event.waitUntil(
+      handleRequest(request)
+        .then((value) => reply({ value }))
+        .catch((err) => reply({ error: toErrorData(err) })),
+    );
+  });
+
+  async function handleRequest(request: ServiceWorkerRequest) {
+    switch (request.type) {
+      case "list":
+        return engine.list();
+      case "pause":
+        return engine.pause(request.id);
+      case "resume":
+        return engine.resume(request.id);
+      case "cancel":
+        return engine.cancel(request.id);
+      case "remove": {
+        const fetch = await scope.registration.backgroundFetch?.get(request.id);
+        await fetch?.abort();
+        return engine.remove(request.id);
+      }
+    }
+  }
+
+  // --- Background Fetch ---
+
+  const finishFetch = async (
+    event: BackgroundFetchEvent,
+    changes: Partial<BackgroundDownloadInfo>,
+  ) => {
+    const { registration } = event;
+    const info = await getInfo(registration.id, urlPrefix);
+    if (!info) return; // Removed in the meantime
+    const updated: BackgroundDownloadInfo = {
+      ...info,
+      loaded: registration.downloaded,
+      total: registration.downloadTotal || registration.downloaded,
+      ...changes,
+    };
+    await saveInfo(updated, urlPrefix);
+    await engine.broadcast(updated);
+  };
+
+  scope.addEventListener(
+    "backgroundfetchsuccess",
+    (event: BackgroundFetchEvent) => {
+      event.waitUntil(
+        (async () => {
+          const info = await getInfo(event.registration.id, urlPrefix);
+          if (!info) return;
+          const [record] = await event.registration.matchAll();
+          const response = await record.responseReady;
+          const headers: Record<string, string> = {};
+          for (const name of ["Content-Type", "Content-Length"]) {
+            const value = response.headers.get(name);
+            if (value) headers[name] = value;
+          }
+          // Streamed into the cache, never held in memory
+          await saveFile(info, response.body, headers, urlPrefix);
+          await finishFetch(event, { state: "completed" });
+          await event.updateUI?.({ title: `${info.filename} downloaded` });
+        })(),
+      );
+    },
+  );
+
+  scope.addEventListener(
+    "backgroundfetchfail",
+    (event: BackgroundFetchEvent) => {
+      event.waitUntil(
+        (async () => {
+          const error = await getFetchError(event.registration);
+          await finishFetch(event, {
+            state: "failed",
+            error: toErrorData(error),
+          });
+        })(),
+      );
+    },
+  );
+
+  scope.addEventListener(
+    "backgroundfetchabort",
+    (event: BackgroundFetchEvent) => {
+      event.waitUntil(finishFetch(event, { state: "canceled" }));
+    },
+  );
+
+  scope.addEventListener(
+    "backgroundfetchclick",
+    (event: BackgroundFetchEvent) => {
+      event.waitUntil(scope.clients.openWindow(scope.registration.scope));
+    },
+  );
+}
+
+async function getFetchError(
+  registration: BackgroundFetchRegistration,
+): Promise<Error> {
+  switch (registration.failureReason) {
+    case "quota-exceeded":
+      return new QuotaError();
+    case "bad-status": {
+      const [record] = await registration.matchAll();
+      const response = await record?.responseReady.catch(() => null);
+      if (response) return new HttpError(response.status, response.statusText);
+      break;
+    }
+  }
+  return new DownloaderError(
+    `Background Fetch failed: ${registration.failureReason || "unknown"}`,
+  );
+}
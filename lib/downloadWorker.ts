@@ -0,0 +1,546 @@
+import { DownloadManager } from "./DownloadManager";
+import { DownloadJob, DownloadJobState, JobProgress } from "./DownloadJob";
+import {
+  DownloadTask,
+  DownloadTaskEvents,
+  DownloadTaskOptions,
+  DownloadTaskProgress,
+  DownloadTaskState,
+  MirrorDiagnostics,
+  RequestOptions,
+} from "./DownloadTask";
+import {
+  DownloaderError,
+  ErrorData,
+  fromErrorData,
+  getErrorClass,
+  toErrorData,
+  toTaskEventData,
+} from "./errors";
+import { FetchTransport } from "./fetchTransport";
+import { MemoryStorage } from "./memoryStorage";
+import { OPFSStorage } from "./opfsStorage";
+import { RetryPolicy } from "./retry";
+import { downloadStorage, StorageAdapter } from "./storage";
+
+/* NOTE: Runs a DownloadManager off the main thread, so chunk saving,
+  hashing and assembly never block the page. WorkerDownloadManager starts
+  this worker and mirrors its jobs and tasks: every event is posted back
+  with a snapshot of the task's state and progress. Callbacks such as
+  getHeaders() can't be posted, so they stay on the page and are invoked
+  through "callback" messages.
+*/
+
+export type WorkerStorage = "indexeddb" | "opfs" | "memory";
+
+/** What each page callback resolves to, by name. */
+export interface CallbackResults {
+  getHeaders: Record<string, string>;
+  refreshToken: void;
+  resolveUrl: string;
+}
+
+export type CallbackName = keyof CallbackResults;
+
+/** A RetryPolicy with its error classes given by name. */
+export type WorkerRetryPolicy = Omit<RetryPolicy, "retryableErrors"> & {
+  retryableErrors?: string[];
+};
+
+/** DownloadTaskOptions without the instances and callbacks. */
+export type WorkerTaskOptions = Omit<
+  DownloadTaskOptions,
+  | "storage"
+  | "rateLimiter"
+  | "transport"
+  | "coordinator"
+  | "signal"
+  | "resolveUrl"
+  | "retryPolicy"
+  | "request"
+> & {
+  retryPolicy?: WorkerRetryPolicy;
+  request?: Omit<RequestOptions, "getHeaders" | "refreshToken">;
+};
+
+export type WorkerManagerOptions = Pick<
+  WorkerTaskOptions,
+  "retryPolicy" | "request" | "timeouts"
+> & {
+  storage?: WorkerStorage;
+  preemption?: boolean;
+  maxBytesPerSecond?: number;
+  coordinateTabs?: boolean;
+};
+
+// The methods the page calls, by name: the arguments posted with them and
+// the value sent back. Jobs and tasks are posted as their ids.
+export interface ManagerMethods {
+  startJob: { args: [jobId: string, priority?: number]; result: void };
+  setJobPriority: { args: [jobId: string, priority: number]; result: void };
+  moveJobToFront: { args: [jobId: string]; result: void };
+  moveJobToBack: { args: [jobId: string]; result: void };
+  pauseAll: { args: []; result: void };
+  resumeAll: { args: []; result: void };
+  unload: { args: []; result: void };
+  setBandwidthLimit: { args: [bytesPerSecond: number | null]; result: void };
+}
+export interface TaskMethods {
+  start: { args: []; result: void };
+  pause: { args: []; result: void };
+  resume: { args: []; result: void };
+  cancel: { args: []; result: void };
+  setBandwidthLimit: { args: [bytesPerSecond: number | null]; result: void };
+  verifyAndRepair: { args: []; result: number[] };
+  getMirrorDiagnostics: { args: []; result: MirrorDiagnostics[] };
+}
+
+export type ManagerMethod = keyof ManagerMethods;
+export type JobMethod = "pause" | "resume" | "cancel" | "retryFailed";
+export type TaskMethod = keyof TaskMethods;
+
+type MethodMap<T> = Record<keyof T, { args: unknown[]; result: unknown }>;
+
+/** A call of one of the `Methods`, with the arguments it takes. */
+type MethodCall<Methods extends MethodMap<Methods>> = {
+  [M in keyof Methods]: { method: M; args: Methods[M]["args"] };
+}[keyof Methods];
+
+// `callbacks` names the ones the page has. They are looked up by scope:
+// "manager" for the constructor's, the job id for createJob()'s.
+export type EngineWorkerRequest =
+  | {
+      id: number;
+      type: "init";
+      concurrency: number;
+      options: WorkerManagerOptions;
+      callbacks: CallbackName[];
+    }
+  | {
+      id: number;
+      type: "createJob";
+      jobId: string;
+      urls: (string | string[])[];
+      filenames: string[];
+      options: WorkerTaskOptions;
+      taskIds: string[];
+      callbacks: CallbackName[];
+    }
+  | {
+      id: number;
+      type: "restore";
+      scope: string;
+      options: WorkerTaskOptions;
+      callbacks: CallbackName[];
+    }
+  | ({ id: number; type: "manager" } & MethodCall<ManagerMethods>)
+  | { id: number; type: "job"; jobId: string; method: JobMethod }
+  | ({ id: number; type: "task"; taskId: string } & MethodCall<TaskMethods>);
+
+export interface CallbackResult {
+  type: "callbackResult";
+  callId: number;
+  value?: unknown;
+  error?: ErrorData;
+}
+
+export interface TaskSnapshot {
+  id: string;
+  url: string;
+  filename: string;
+  mirrors: string[];
+  connections: number;
+  state: DownloadTaskState;
+  progress: DownloadTaskProgress;
+  bandwidthLimit: number | null;
+}
+
+export interface JobSnapshot {
+  id: string;
+  createdAt: number;
+  state: DownloadJobState;
+  progress: JobProgress;
+  tasks: TaskSnapshot[];
+}
+
+export interface EngineWorkerResponse {
+  type: "response";
+  id: number;
+  value?: unknown;
+  error?: ErrorData;
+}
+
+// Events from the job's tasks are left to the page, which derives them
+// from its own task proxies.
+export type JobEventName =
+  | "start"
+  | "progress"
+  | "stateChange"
+  | "complete"
+  | "quotaExceeded";
+
+// Posted in arrays, see post()
+export type EngineWorkerMessage =
+  | EngineWorkerResponse
+  | {
+      type: "taskEvent";
+      taskId: string;
+      event: keyof DownloadTaskEvents;
+      payload: unknown; // Errors as ErrorData
+      snapshot: TaskSnapshot;
+    }
+  | {
+      type: "jobEvent";
+      jobId: string;
+      event: JobEventName;
+      state: DownloadJobState;
+      progress: JobProgress;
+      error?: ErrorData; // The QuotaError of "quotaExceeded"
+    }
+  | { type: "managerEvent"; event: "queueStart" | "queuePause" | "queueEmpty" }
+  | {
+      type: "callback";
+      callId: number;
+      scope: string;
+      name: CallbackName;
+      taskId: string | null; // The task resolveUrl() is called for
+    };
+
+const TASK_EVENTS: (keyof DownloadTaskEvents)[] = [
+  "start",
+  "pause",
+  "resume",
+  "cancel",
+  "networkLost",
+  "remoteChanged",
+  "progress",
+  "complete",
+  "error",
+  "stateChange",
+  "retry",
+  "quotaExceeded",
+  "stalled",
+  "mirrorDisabled",
+  "repair",
+];
+
+let manager: DownloadManager | null = null;
+const jobs: Map<string, DownloadJob> = new Map();
+const tasks: Map<string, DownloadTask> = new Map();
+// Callbacks waiting for the page, by call id
+const pendingCallbacks: Map<
+  number,
+  { resolve: (value: unknown) => void; reject: (err: Error) => void }
+> = new Map();
+let nextCallId = 0;
+// Streams response bodies, so the bytes of a paused chunk are kept
+const transport = new FetchTransport();
+
+// Everything that happens in one turn of the event loop is posted as one
+// batch, so the page handles it in one go, as it would have happened there.
+// `deferred` messages go last.
+let outbox: EngineWorkerMessage[] = [];
+let deferred: EngineWorkerMessage[] = [];
+
+function post(message: EngineWorkerMessage, defer = false) {
+  (defer ? deferred : outbox).push(message);
+  if (outbox.length + deferred.length === 1) {
+    queueMicrotask(flush);
+  }
+}
+
+function flush() {
+  self.postMessage([...outbox, ...deferred]);
+  outbox = [];
+  deferred = [];
+}
+
+function getManager(): DownloadManager {
+  if (!manager) throw new DownloaderError("Download worker not initialized");
+  return manager;
+}
+
+function getJob(id: string): DownloadJob {
+  const job = jobs.get(id);
+  if (!job) throw new DownloaderError(`Unknown job "${id}"`);
+  return job;
+}
+
+function getTask(id: string): DownloadTask {
+  const task = tasks.get(id);
+  if (!task) throw new DownloaderError(`Unknown task "${id}"`);
+  return task;
+}
+
+// --- Options ---
+
+function callPage<N extends CallbackName>(
+  scope: string,
+  name: N,
+  taskId: string | null,
+): Promise<CallbackResults[N]> {
+  return new Promise((resolve, reject) => {
+    const callId = nextCallId++;
+    // The page answers with what the callback of that name returned
+    pendingCallbacks.set(callId, {
+      resolve: (value) => resolve(value as CallbackResults[N]),
+      reject,
+    });
+    post({ type: "callback", callId, scope, name, taskId });
+  });
+}
+
+function createStorage(kind: WorkerStorage = "indexeddb"): StorageAdapter {
+  switch (kind) {
+    case "opfs":
+      return new OPFSStorage();
+    case "memory":
+      return new MemoryStorage();
+    default:
+      return downloadStorage;
+  }
+}
+
+function toRetryPolicy(policy?: WorkerRetryPolicy): RetryPolicy | undefined {
+  if (!policy) return undefined;
+  const { retryableErrors, ...rest } = policy;
+  if (!retryableErrors) return rest;
+  return {
+    ...rest,
+    retryableErrors: retryableErrors.flatMap(
+      (name) => getErrorClass(name) ?? [],
+    ),
+  };
+}
+
+function toRequestOptions(
+  request: WorkerTaskOptions["request"],
+  scope: string,
+  callbacks: CallbackName[],
+): RequestOptions {
+  const options: RequestOptions = { ...request };
+  if (callbacks.includes("getHeaders")) {
+    options.getHeaders = () => callPage(scope, "getHeaders", null);
+  }
+  if (callbacks.includes("refreshToken")) {
+    options.refreshToken = () => callPage(scope, "refreshToken", null);
+  }
+  return options;
+}
+
+function toTaskOptions(
+  options: WorkerTaskOptions,
+  scope: string,
+  callbacks: CallbackName[],
+): DownloadTaskOptions {
+  const { retryPolicy, request, ...rest } = options;
+  return {
+    ...rest,
+    transport,
+    retryPolicy: toRetryPolicy(retryPolicy),
+    request: toRequestOptions(request, scope, callbacks),
+    ...(callbacks.includes("resolveUrl") && {
+      resolveUrl: (task: DownloadTask) =>
+        callPage(scope, "resolveUrl", task.id),
+    }),
+  };
+}
+
+// --- Snapshots and Events ---
+
+function getTaskSnapshot(task: DownloadTask): TaskSnapshot {
+  return {
+    id: task.id,
+    url: task.url,
+    filename: task.filename,
+    mirrors: task.mirrors,
+    connections: task.connections,
+    state: task.state,
+    progress: task.getProgress(),
+    bandwidthLimit: task.getBandwidthLimit(),
+  };
+}
+
+function getJobSnapshot(job: DownloadJob): JobSnapshot {
+  return {
+    id: job.id,
+    createdAt: job.createdAt,
+    state: job.state,
+    progress: job.getProgress(),
+    tasks: job.tasks.map(getTaskSnapshot),
+  };
+}
+
+function trackJob(job: DownloadJob) {
+  jobs.set(job.id, job);
+
+  const forward = (event: JobEventName, defer = false, error?: Error) =>
+    post(
+      {
+        type: "jobEvent",
+        jobId: job.id,
+        event,
+        state: job.state,
+        progress: job.getProgress(),
+        ...(error && { error: toErrorData(error) }),
+      },
+      defer,
+    );
+  job.on("start", () => forward("start"));
+  job.on("progress", () => forward("progress"));
+  // The job reacts to its tasks' events before we see them. Deferred, so
+  // the page has the final task event (and its result) when it hears
+  // that the job is done.
+  job.on("stateChange", () => forward("stateChange", true));
+  job.on("complete", () => forward("complete", true));
+  job.on("quotaExceeded", (error) => forward("quotaExceeded", false, error));
+
+  for (const task of job.tasks) {
+    tasks.set(task.id, task);
+    for (const event of TASK_EVENTS) {
+      task.on(event, (payload) =>
+        post({
+          type: "taskEvent",
+          taskId: task.id,
+          event,
+          payload: toTaskEventData(event, payload),
+          snapshot: getTaskSnapshot(task),
+        }),
+      );
+    }
+  }
+}
+
+// --- Requests ---
+
+const managerMethods: {
+  [M in ManagerMethod]: (
+    ...args: ManagerMethods[M]["args"]
+  ) => ManagerMethods[M]["result"];
+} = {
+  startJob: (jobId, priority) => getManager().startJob(getJob(jobId), priority),
+  setJobPriority: (jobId, priority) =>
+    getManager().setJobPriority(getJob(jobId), priority),
+  moveJobToFront: (jobId) => getManager().moveJobToFront(getJob(jobId)),
+  moveJobToBack: (jobId) => getManager().moveJobToBack(getJob(jobId)),
+  pauseAll: () => getManager().pauseAll(),
+  resumeAll: () => getManager().resumeAll(),
+  unload: () => getManager().unload(),
+  setBandwidthLimit: (bytesPerSecond) =>
+    getManager().setBandwidthLimit(bytesPerSecond),
+};
+
+const jobMethods: Record<JobMethod, (job: DownloadJob) => unknown> = {
+  pause: (job) => job.pause(),
+  resume: (job) => job.resume(),
+  cancel: (job) => job.cancel(),
+  retryFailed: (job) => job.retryFailed(),
+};
+
+const taskMethods: {
+  [M in TaskMethod]: (
+    task: DownloadTask,
+    ...args: TaskMethods[M]["args"]
+  ) => TaskMethods[M]["result"] | Promise<TaskMethods[M]["result"]>;
+} = {
+  // Not awaited: the outcome reaches the page as the task's events
+  start: (task) => {
+    task.start();
+  },
+  pause: (task) => task.pause(),
+  resume: (task) => task.resume(),
+  cancel: (task) => task.cancel(),
+  setBandwidthLimit: (task, bytesPerSecond) =>
+    task.setBandwidthLimit(bytesPerSecond),
+  verifyAndRepair: (task) => task.verifyAndRepair(),
+  getMirrorDiagnostics: (task) => task.getMirrorDiagnostics(),
+};
+
+// Generic, so TypeScript can tell that the arguments fit the method
+function callManager<M extends ManagerMethod>(
+  method: M,
+  args: ManagerMethods[M]["args"],
+) {
+  return managerMethods[method](...args);
+}
+
+function callTask<M extends TaskMethod>(
+  task: DownloadTask,
+  method: M,
+  args: TaskMethods[M]["args"],
+) {
+  return taskMethods[method](task, ...args);
+}
+
+async function handleRequest(req: EngineWorkerRequest): Promise<unknown> {
+  switch (req.type) {
+    case "init": {
+      const { storage, retryPolicy, request, ...rest } = req.options;
+      manager = new DownloadManager(req.concurrency, {
+        ...rest,
+        storage: createStorage(storage),
+        retryPolicy: toRetryPolicy(retryPolicy),
+        request: toRequestOptions(request, "manager", req.callbacks),
+      });
+      manager.on("queueStart", () =>
+        post({ type: "managerEvent", event: "queueStart" }),
+      );
+      manager.on("queuePause", () =>
+        post({ type: "managerEvent", event: "queuePause" }),
+      );
+      manager.on("queueEmpty", () =>
+        post({ type: "managerEvent", event: "queueEmpty" }),
+      );
+      return;
+    }
+    case "createJob": {
+      const job = getManager().createJob(
+        req.urls,
+        req.filenames,
+        toTaskOptions(req.options, req.jobId, req.callbacks),
+        req.taskIds,
+        req.jobId,
+      );
+      trackJob(job);
+      return;
+    }
+    case "restore": {
+      const restored = await getManager().restore(
+        toTaskOptions(req.options, req.scope, req.callbacks),
+      );
+      restored.forEach(trackJob);
+      return restored.map(getJobSnapshot);
+    }
+    case "manager":
+      return callManager(req.method, req.args);
+    case "job":
+      return jobMethods[req.method](getJob(req.jobId));
+    case "task":
+      return callTask(getTask(req.taskId), req.method, req.args);
+  }
+}
+
+self.onmessage = async (
+  e: MessageEvent<EngineWorkerRequest | CallbackResult>,
+) => {
+  const message = e.data;
+  if (message.type === "callbackResult") {
+    const pending = pendingCallbacks.get(message.callId);
+    if (!pending) return;
+    pendingCallbacks.delete(message.callId);
+    if (message.error) {
+      pending.reject(fromErrorData(message.error));
+    } else {
+      pending.resolve(message.value);
+    }
+    return;
+  }
+
+  const response: EngineWorkerResponse = { type: "response", id: message.id };
+  try {
+    response.value = await handleRequest(message);
+  } catch (err) {
+    response.error = toErrorData(err);
+  }
+  post(response);
+};
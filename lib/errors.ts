@@ -1,3 +1,5 @@
+import type { DownloadTaskEvents, RetryEvent } from "./DownloadTask";
+
 /**
  * Base error for all SDK-specific errors.
  */
@@ -20,6 +22,26 @@ export class NetworkError extends DownloaderError {
   }
 }
 
+/**
+ * Thrown when a request gets no response in time, or stops receiving
+ * data. A NetworkError, so it is retried by default.
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message = "Request timed out") {
+    super(message);
+  }
+}
+
+/**
+ * Rejects the promises of a download that was canceled, e.g. through an
+ * AbortSignal.
+ */
+export class CanceledError extends DownloaderError {
+  constructor(message = "Download canceled") {
+    super(message);
+  }
+}
+
 /**
  * Thrown when the server responds with a non-2xx HTTP status.
  */
@@ -55,10 +77,117 @@ export class AssemblyError extends DownloaderError {
 }
 
 /**
- * Thrown when IndexedDB storage quota is exceeded.
+ * Thrown when IndexedDB storage quota is exceeded. A task pauses on it
+ * rather than failing, so it can resume once space is freed.
  */
 export class QuotaError extends DownloaderError {
-  constructor(message = "Storage quota exceeded") {
+  /** Bytes the download still has to store; 0 when unknown. */
+  public bytesNeeded: number;
+  /** Free bytes when this was detected, if the browser reported them. */
+  public bytesAvailable: number | null;
+
+  constructor(
+    message = "Storage quota exceeded",
+    bytesNeeded = 0,
+    bytesAvailable: number | null = null,
+  ) {
     super(message);
+    this.bytesNeeded = bytesNeeded;
+    this.bytesAvailable = bytesAvailable;
+  }
+}
+
+/**
+ * Thrown when the downloaded file's digest does not match
+ * the expected one (caller-supplied or from the server).
+ */
+export class IntegrityError extends DownloaderError {
+  public algorithm: string;
+  public expected: string;
+  public actual: string;
+
+  constructor(algorithm: string, expected: string, actual: string) {
+    super(`${algorithm} mismatch. Expected ${expected}, got ${actual}`);
+    this.algorithm = algorithm;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * An error as it is posted between a worker and the page: its name,
+ * message and own fields, such as an HttpError's statusCode.
+ */
+export interface ErrorData {
+  name: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+const ERROR_CLASSES: Record<string, new (...args: any[]) => Error> = {
+  DownloaderError,
+  NetworkError,
+  TimeoutError,
+  CanceledError,
+  HttpError,
+  UnsupportedServerError,
+  AssemblyError,
+  QuotaError,
+  IntegrityError,
+};
+
+/** The error class of this module named `name`, if there is one. */
+export function getErrorClass(
+  name: string,
+): (new (...args: any[]) => Error) | undefined {
+  return Object.hasOwn(ERROR_CLASSES, name) ? ERROR_CLASSES[name] : undefined;
+}
+
+export function toErrorData(error: Error): ErrorData {
+  return { ...error, name: error.name, message: error.message };
+}
+
+/**
+ * Rebuilds an error from toErrorData(), as an instance of the same class
+ * when it is one of ours, so `instanceof` checks keep working.
+ */
+export function fromErrorData(data: ErrorData): Error {
+  const ErrorClass = getErrorClass(data.name) ?? Error;
+  // Skips the constructor, whose arguments differ between the classes
+  const error: Error = Object.create(ErrorClass.prototype);
+  return Object.assign(error, data);
+}
+
+/**
+ * A task event's payload as it is posted to a worker, a page or another
+ * tab, with the errors it holds turned into ErrorData.
+ */
+export function toTaskEventData<K extends keyof DownloadTaskEvents>(
+  event: K,
+  payload: DownloadTaskEvents[K],
+): unknown {
+  if (event === "error" || event === "quotaExceeded") {
+    return toErrorData(payload as Error);
+  }
+  if (event === "retry") {
+    const retry = payload as RetryEvent;
+    return { ...retry, error: toErrorData(retry.error) };
+  }
+  return payload;
+}
+
+/** Rebuilds a task event's payload from toTaskEventData(). */
+export function fromTaskEventData<K extends keyof DownloadTaskEvents>(
+  event: K,
+  data: unknown,
+): DownloadTaskEvents[K] {
+  if (event === "error" || event === "quotaExceeded") {
+    return fromErrorData(data as ErrorData) as DownloadTaskEvents[K];
+  }
+  if (event === "retry") {
+    const retry = data as Omit<RetryEvent, "error"> & { error: ErrorData };
+    const payload: RetryEvent = { ...retry, error: fromErrorData(retry.error) };
+    return payload as DownloadTaskEvents[K];
   }
+  return data as DownloadTaskEvents[K];
 }
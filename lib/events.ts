@@ -1,16 +1,46 @@
 export type EventHandler<T = any> = (payload: T) => void;
 
-export class EventEmitter {
-  private listeners: Map<string, EventHandler[]> = new Map();
+// Events without a payload are declared as `void` and emitted without one
+export type EmitArgs<T> = [T] extends [void] ? [payload?: T] : [payload: T];
 
-  on<T = any>(event: string, handler: EventHandler<T>): void {
+/**
+ * `Events` maps each event name to its payload type, e.g.
+ * `{ progress: DownloadTaskProgress; pause: void }`.
+ */
+export class EventEmitter<Events extends object = Record<string, any>> {
+  private listeners: Map<keyof Events, EventHandler[]> = new Map();
+
+  /** Returns a function that removes the handler again. */
+  on<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+  ): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
     }
     this.listeners.get(event)!.push(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Like on(), but the handler runs at most once. Remove it early with the
+   * returned function; off() only knows the wrapper.
+   */
+  once<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      handler(payload);
+    });
+    return off;
   }
 
-  off<T = any>(event: string, handler: EventHandler<T>): void {
+  off<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+  ): void {
     const handlers = this.listeners.get(event);
     if (!handlers) return;
     const index = handlers.indexOf(handler);
@@ -19,7 +49,15 @@ export class EventEmitter {
     }
   }
 
-  emit<T = any>(event: string, payload?: T): void {
+  /** Resolves with the payload of the next `event`. */
+  waitFor<K extends keyof Events>(event: K): Promise<Events[K]> {
+    return new Promise((resolve) => this.once(event, resolve));
+  }
+
+  emit<K extends keyof Events>(
+    event: K,
+    ...[payload]: EmitArgs<Events[K]>
+  ): void {
     const handlers = this.listeners.get(event);
     if (!handlers) return;
     // Use a copy in case handlers are modified during iteration
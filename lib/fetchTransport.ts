@@ -0,0 +1,92 @@
+import { NetworkError, TimeoutError } from "./errors";
+import type {
+  Transport,
+  TransportHandle,
+  TransportHandlers,
+  TransportRequest,
+  TransportResponse,
+} from "./transport";
+
+/**
+ * fetch() with the response body read as a stream. Bytes are handed to
+ * onData as they arrive, so a DownloadTask can save a partial chunk when
+ * a request breaks off. Works in workers and Node 18+ too.
+ */
+export class FetchTransport implements Transport {
+  send(
+    request: TransportRequest,
+    handlers: TransportHandlers,
+  ): TransportHandle {
+    const controller = new AbortController();
+    let settled = false; // Finished, failed or aborted
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const settle = () => {
+      settled = true;
+      if (timer !== null) clearTimeout(timer);
+    };
+    const fail = (error: Error) => {
+      if (settled) return;
+      settle();
+      controller.abort();
+      handlers.onError(error);
+    };
+
+    if (request.timeout > 0) {
+      timer = setTimeout(
+        () => fail(new TimeoutError(`No response within ${request.timeout}ms`)),
+        request.timeout,
+      );
+    }
+
+    this.read(request, handlers, controller.signal, () => settled)
+      .then((response) => {
+        if (settled) return;
+        settle();
+        handlers.onLoad(response, null);
+      })
+      .catch((err) => fail(new NetworkError(err.message)));
+
+    return {
+      abort() {
+        settle();
+        controller.abort();
+      },
+    };
+  }
+
+  /** Reads the whole response, stopping early once `isSettled()`. */
+  private async read(
+    request: TransportRequest,
+    handlers: TransportHandlers,
+    signal: AbortSignal,
+    isSettled: () => boolean,
+  ): Promise<TransportResponse> {
+    const res = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      credentials: request.withCredentials ? "include" : "same-origin",
+      signal,
+    });
+    const response: TransportResponse = {
+      status: res.status,
+      statusText: res.statusText,
+      getHeader: (name) => res.headers.get(name),
+    };
+    if (isSettled()) return response;
+    handlers.onHeaders?.(response);
+
+    if (!res.body || isSettled()) return response;
+    const reader = res.body.getReader();
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || isSettled()) break;
+      loaded += value.byteLength;
+      handlers.onData?.(value);
+      if (isSettled()) break; // A handler aborted the request
+      handlers.onProgress?.(loaded);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,424 @@
+/* NOTE: Web Crypto's `crypto.subtle.digest()` only hashes a whole buffer at
+  once, which would mean holding the entire file in memory. These small
+  incremental hashers let us feed chunks in as they arrive instead.
+*/
+
+export type HashAlgorithm = "SHA-256" | "SHA-1" | "MD5";
+
+export interface Hasher {
+  update(data: Uint8Array): void;
+  digest(): Uint8Array;
+}
+
+/** An expected digest, decoded from hex or base64. */
+export interface ExpectedDigest {
+  algorithm: HashAlgorithm;
+  value: Uint8Array;
+}
+
+const DIGEST_LENGTHS: Record<HashAlgorithm, number> = {
+  "SHA-256": 32,
+  "SHA-1": 20,
+  MD5: 16,
+};
+
+// Strongest first, used to pick one entry from a multi-valued Digest header.
+const ALGORITHM_PREFERENCE: HashAlgorithm[] = ["SHA-256", "SHA-1", "MD5"];
+
+export function createHasher(algorithm: HashAlgorithm): Hasher {
+  switch (algorithm) {
+    case "SHA-256":
+      return new SHA256();
+    case "SHA-1":
+      return new SHA1();
+    case "MD5":
+      return new MD5();
+  }
+}
+
+/**
+ * Feeds a Blob into a hasher piece by piece. Reading through the stream
+ * keeps memory flat and yields to the event loop between pieces.
+ */
+export async function hashBlob(hasher: Hasher, blob: Blob): Promise<void> {
+  const reader = blob.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function digestsEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Parses a caller-supplied digest. Accepted forms:
+ * - "sha256-<base64>" (Subresource Integrity style)
+ * - "sha-256=<base64>" (Digest header style)
+ * - a bare hex string, with the algorithm inferred from its length
+ */
+export function parseDigest(input: string): ExpectedDigest | null {
+  const trimmed = input.trim();
+  const match = /^(sha-?256|sha-?1|md5)[-=](.+)$/i.exec(trimmed);
+
+  if (match) {
+    // The regex only matches names normalizeAlgorithm knows
+    const algorithm = normalizeAlgorithm(match[1])!;
+    // RFC 9530 wraps the value in colons ("sha-256=:abc=:")
+    const value = decodeDigestValue(
+      match[2].replace(/^:|:$/g, ""),
+      DIGEST_LENGTHS[algorithm],
+    );
+    return value ? { algorithm, value } : null;
+  }
+
+  // Bare hex: 64 chars is SHA-256, 40 is SHA-1, 32 is MD5
+  if (/^[0-9a-f]+$/i.test(trimmed)) {
+    for (const algorithm of ALGORITHM_PREFERENCE) {
+      if (trimmed.length === DIGEST_LENGTHS[algorithm] * 2) {
+        return { algorithm, value: hexToBytes(trimmed) };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a whole-file digest from response headers, if the server sent one.
+ * Supports `Repr-Digest` / `Digest` ("sha-256=..., md5=...") and
+ * `Content-MD5`. Returns it in a form `parseDigest` accepts.
+ */
+export function readDigestHeader(
+  getHeader: (name: string) => string | null,
+): string | null {
+  const header = getHeader("Repr-Digest") ?? getHeader("Digest");
+  if (header) {
+    const entries = header.split(",").map((entry) => entry.trim());
+    for (const algorithm of ALGORITHM_PREFERENCE) {
+      const entry = entries.find(
+        (e) => normalizeAlgorithm(e.split("=")[0]) === algorithm,
+      );
+      if (entry && parseDigest(entry)) return entry;
+    }
+  }
+
+  const contentMd5 = getHeader("Content-MD5");
+  if (contentMd5) {
+    return `md5=${contentMd5.trim()}`;
+  }
+  return null;
+}
+
+function normalizeAlgorithm(name: string): HashAlgorithm | null {
+  switch (name.trim().toLowerCase()) {
+    case "sha-256":
+    case "sha256":
+      return "SHA-256";
+    case "sha-1":
+    case "sha1":
+    case "sha":
+      return "SHA-1";
+    case "md5":
+      return "MD5";
+    default:
+      return null;
+  }
+}
+
+/** Decodes a digest written as either hex or base64. */
+function decodeDigestValue(value: string, length: number): Uint8Array | null {
+  if (value.length === length * 2 && /^[0-9a-f]+$/i.test(value)) {
+    return hexToBytes(value);
+  }
+  try {
+    const binary = atob(value);
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return bytes.length === length ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// --- Hash Implementations ---
+
+/**
+ * Shared Merkle–Damgård plumbing: buffers input into 64-byte blocks and
+ * appends the final padding. Subclasses only implement the compression step.
+ */
+abstract class BlockHasher implements Hasher {
+  private buffer = new Uint8Array(64);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+
+  // MD5 stores the message length little-endian, the SHA family big-endian.
+  protected abstract readonly littleEndian: boolean;
+  protected abstract processBlock(view: DataView, offset: number): void;
+  protected abstract output(): Uint8Array;
+
+  update(data: Uint8Array): void {
+    this.bytesHashed += data.length;
+    let pos = 0;
+
+    // Top up a partially filled block first
+    if (this.bufferLength > 0) {
+      pos = Math.min(64 - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, pos), this.bufferLength);
+      this.bufferLength += pos;
+      if (this.bufferLength === 64) {
+        this.processBlock(new DataView(this.buffer.buffer), 0);
+        this.bufferLength = 0;
+      }
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    while (pos + 64 <= data.length) {
+      this.processBlock(view, pos);
+      pos += 64;
+    }
+
+    if (pos < data.length) {
+      this.buffer.set(data.subarray(pos), 0);
+      this.bufferLength = data.length - pos;
+    }
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.bytesHashed * 8;
+    const padLength = (this.bufferLength < 56 ? 56 : 120) - this.bufferLength;
+    const padding = new Uint8Array(padLength + 8);
+    padding[0] = 0x80;
+
+    const view = new DataView(padding.buffer);
+    const high = Math.floor(bitLength / 0x100000000);
+    const low = bitLength >>> 0;
+    if (this.littleEndian) {
+      view.setUint32(padLength, low, true);
+      view.setUint32(padLength + 4, high, true);
+    } else {
+      view.setUint32(padLength, high);
+      view.setUint32(padLength + 4, low);
+    }
+
+    this.update(padding);
+    return this.output();
+  }
+}
+
+function wordsToBytes(words: Int32Array, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4);
+  const view = new DataView(bytes.buffer);
+  words.forEach((w, i) => view.setInt32(i * 4, w, littleEndian));
+  return bytes;
+}
+
+const SHA256_K = new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+class SHA256 extends BlockHasher {
+  protected readonly littleEndian = false;
+  private h = new Int32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private w = new Int32Array(64);
+
+  protected processBlock(view: DataView, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getInt32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 =
+        ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.h;
+    for (let i = 0; i < 64; i++) {
+      const S1 =
+        ((e >>> 6) | (e << 26)) ^
+        ((e >>> 11) | (e << 21)) ^
+        ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + SHA256_K[i] + w[i]) | 0;
+      const S0 =
+        ((a >>> 2) | (a << 30)) ^
+        ((a >>> 13) | (a << 19)) ^
+        ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    const state = this.h;
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+
+  protected output(): Uint8Array {
+    return wordsToBytes(this.h, false);
+  }
+}
+
+class SHA1 extends BlockHasher {
+  protected readonly littleEndian = false;
+  private h = new Int32Array([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0,
+  ]);
+  private w = new Int32Array(80);
+
+  protected processBlock(view: DataView, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getInt32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    let [a, b, c, d, e] = this.h;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const t = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = t;
+    }
+
+    const state = this.h;
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+  }
+
+  protected output(): Uint8Array {
+    return wordsToBytes(this.h, false);
+  }
+}
+
+// Per-round shift amounts and sine-derived constants from RFC 1321
+const MD5_S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10,
+  15, 21,
+];
+const MD5_K = Int32Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000),
+);
+
+class MD5 extends BlockHasher {
+  protected readonly littleEndian = true;
+  private h = new Int32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private m = new Int32Array(16);
+
+  protected processBlock(view: DataView, offset: number): void {
+    const m = this.m;
+    for (let i = 0; i < 16; i++) {
+      m[i] = view.getInt32(offset + i * 4, true);
+    }
+
+    let [a, b, c, d] = this.h;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const x = (a + f + MD5_K[i] + m[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((x << MD5_S[i]) | (x >>> (32 - MD5_S[i])))) | 0;
+    }
+
+    const state = this.h;
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+  }
+
+  protected output(): Uint8Array {
+    return wordsToBytes(this.h, true);
+  }
+}
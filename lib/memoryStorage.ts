@@ -0,0 +1,71 @@
+import { JobRecord, StorageAdapter, TaskChunk, TaskMetadata } from "./storage";
+
+/* NOTE: Keeps everything in plain Maps. Nothing survives a page reload,
+  but it needs no browser database, which makes it usable in tests and
+  where IndexedDB is disabled.
+*/
+
+export class MemoryStorage implements StorageAdapter {
+  private metadata: Map<string, TaskMetadata> = new Map();
+  // task id -> (chunk index -> chunk)
+  private chunks: Map<string, Map<number, TaskChunk>> = new Map();
+  private jobs: Map<string, JobRecord> = new Map();
+
+  // --- Metadata Methods ---
+
+  async getMetadata(taskId: string): Promise<TaskMetadata | undefined> {
+    const metadata = this.metadata.get(taskId);
+    // Return a copy so callers can't mutate stored state
+    return metadata ? { ...metadata } : undefined;
+  }
+
+  async saveMetadata(metadata: TaskMetadata): Promise<void> {
+    this.metadata.set(metadata.id, { ...metadata });
+  }
+
+  async clearMetadata(taskId: string): Promise<void> {
+    this.metadata.delete(taskId);
+  }
+
+  // --- Chunk Methods ---
+
+  async saveChunk(chunk: TaskChunk): Promise<void> {
+    if (!this.chunks.has(chunk.taskId)) {
+      this.chunks.set(chunk.taskId, new Map());
+    }
+    // Overwrites an existing chunk with the same index
+    this.chunks.get(chunk.taskId)!.set(chunk.index, { ...chunk });
+  }
+
+  async getChunks(taskId: string): Promise<TaskChunk[]> {
+    const chunks = [...(this.chunks.get(taskId)?.values() ?? [])];
+    return chunks.sort((a, b) => a.index - b.index);
+  }
+
+  async clearChunks(taskId: string): Promise<void> {
+    this.chunks.delete(taskId);
+  }
+
+  async clearAllData(): Promise<void> {
+    this.metadata.clear();
+    this.chunks.clear();
+    this.jobs.clear();
+  }
+
+  // --- Job Methods ---
+
+  async getJobs(): Promise<JobRecord[]> {
+    // structuredClone, since the record nests arrays and objects
+    return [...this.jobs.values()]
+      .map((job) => structuredClone(job))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveJob(job: JobRecord): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async clearJob(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
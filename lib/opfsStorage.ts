@@ -0,0 +1,218 @@
+import type { OPFSWorkerRequest, OPFSWorkerResponse } from "./opfsWorker";
+import { estimateAvailableSpace } from "./quota";
+import { JobRecord, StorageAdapter, TaskChunk, TaskMetadata } from "./storage";
+import type { DistributiveOmit } from "./utils";
+
+/* NOTE: Chunks are written straight into a single file per task in the
+  Origin Private File System at their byte offset. The file is then handed
+  out as a `File`, so a finished download never has to be copied into one
+  giant in-memory Blob.
+*/
+
+const OPFS_DIR = "downloads";
+const JOBS_DIR = "jobs";
+
+type WorkerRequestBody = DistributiveOmit<OPFSWorkerRequest, "id">;
+
+export class OPFSStorage implements StorageAdapter {
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending: Map<
+    number,
+    { resolve: () => void; reject: (err: Error) => void }
+  > = new Map();
+
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== "undefined" &&
+      typeof navigator !== "undefined" &&
+      !!navigator.storage?.getDirectory
+    );
+  }
+
+  // --- Metadata Methods ---
+  // Metadata is small, so it is kept as a JSON file next to the data file.
+
+  async getMetadata(taskId: string): Promise<TaskMetadata | undefined> {
+    const name = await this.getFileName(taskId);
+    try {
+      const dir = await this.getDirectory();
+      const handle = await dir.getFileHandle(`${name}.json`);
+      return JSON.parse(await (await handle.getFile()).text());
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "NotFoundError") {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async saveMetadata(metadata: TaskMetadata): Promise<void> {
+    const name = await this.getFileName(metadata.id);
+    const dir = await this.getDirectory();
+    const handle = await dir.getFileHandle(`${name}.json`, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(JSON.stringify(metadata));
+    await writable.close();
+  }
+
+  async clearMetadata(taskId: string): Promise<void> {
+    const name = await this.getFileName(taskId);
+    const dir = await this.getDirectory();
+    try {
+      await dir.removeEntry(`${name}.json`);
+    } catch (err) {
+      // Nothing to remove
+      if (!(err instanceof DOMException && err.name === "NotFoundError")) {
+        throw err;
+      }
+    }
+  }
+
+  // --- Chunk Methods ---
+
+  async saveChunk(chunk: TaskChunk): Promise<void> {
+    const name = await this.getFileName(chunk.taskId);
+    const data = await chunk.blob.arrayBuffer();
+    // Transfer the buffer instead of copying it into the worker
+    await this.request(
+      { type: "write", name, position: chunk.offset, data },
+      [data],
+    );
+  }
+
+  /**
+   * All chunks live in one file, so it is returned as a single chunk.
+   */
+  async getChunks(taskId: string): Promise<TaskChunk[]> {
+    try {
+      const file = await this.getFile(taskId);
+      return [{ taskId, index: 0, offset: 0, blob: file }];
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "NotFoundError") {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  async clearChunks(taskId: string): Promise<void> {
+    const name = await this.getFileName(taskId);
+    await this.request({ type: "remove", name });
+  }
+
+  async clearAllData(): Promise<void> {
+    await this.request({ type: "clear" });
+  }
+
+  // --- Job Methods ---
+  // One JSON file per job in a "jobs" subdirectory.
+
+  async getJobs(): Promise<JobRecord[]> {
+    const dir = await this.getJobsDirectory();
+    const jobs: JobRecord[] = [];
+    for await (const handle of dir.values()) {
+      if (handle.kind !== "file") continue;
+      const file = await (handle as FileSystemFileHandle).getFile();
+      jobs.push(JSON.parse(await file.text()));
+    }
+    return jobs.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveJob(job: JobRecord): Promise<void> {
+    const dir = await this.getJobsDirectory();
+    const handle = await dir.getFileHandle(`${job.id}.json`, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(JSON.stringify(job));
+    await writable.close();
+  }
+
+  async clearJob(id: string): Promise<void> {
+    const dir = await this.getJobsDirectory();
+    try {
+      await dir.removeEntry(`${id}.json`);
+    } catch (err) {
+      // Nothing to remove
+      if (!(err instanceof DOMException && err.name === "NotFoundError")) {
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Flushes pending writes and returns the downloaded file.
+   */
+  async getFile(taskId: string): Promise<File> {
+    const name = await this.getFileName(taskId);
+    // The worker's sync handle locks the file, so release it before reading.
+    await this.request({ type: "close", name });
+
+    const dir = await this.getDirectory();
+    const handle = await dir.getFileHandle(name);
+    return handle.getFile();
+  }
+
+  getAvailableSpace(): Promise<number | null> {
+    return estimateAvailableSpace();
+  }
+
+  // --- Worker Plumbing ---
+
+  private async getDirectory(): Promise<FileSystemDirectoryHandle> {
+    const root = await navigator.storage.getDirectory();
+    return root.getDirectoryHandle(OPFS_DIR, { create: true });
+  }
+
+  private async getJobsDirectory(): Promise<FileSystemDirectoryHandle> {
+    const dir = await this.getDirectory();
+    return dir.getDirectoryHandle(JOBS_DIR, { create: true });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./opfsWorker.ts", import.meta.url), {
+        type: "module",
+      });
+      this.worker.onmessage = (e: MessageEvent<OPFSWorkerResponse>) => {
+        const { id, error } = e.data;
+        const pending = this.pending.get(id);
+        if (!pending) return;
+        this.pending.delete(id);
+
+        if (error) {
+          // Rebuild as a DOMException so callers can still check
+          // err.name === "QuotaExceededError".
+          pending.reject(new DOMException(error.message, error.name));
+        } else {
+          pending.resolve();
+        }
+      };
+    }
+    return this.worker;
+  }
+
+  private request(
+    body: WorkerRequestBody,
+    transfer: Transferable[] = [],
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextRequestId++;
+      this.pending.set(id, { resolve, reject });
+      this.getWorker().postMessage({ ...body, id }, transfer);
+    });
+  }
+
+  /**
+   * OPFS entry names can't contain "/", and caller-supplied task ids
+   * may, so files are named by the SHA-256 of the task id.
+   */
+  private async getFileName(taskId: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(taskId),
+    );
+    return Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+  }
+}
@@ -0,0 +1,123 @@
+/* NOTE: This worker owns every OPFS write.
+  FileSystemSyncAccessHandle is only available inside dedicated workers, and
+  unlike the async createWritable() it writes in place instead of copying the
+  whole file to a swap file first, which matters for multi-GB downloads.
+*/
+
+const OPFS_DIR = "downloads";
+
+export type OPFSWorkerRequest =
+  | {
+      id: number;
+      type: "write";
+      name: string;
+      position: number;
+      data: ArrayBuffer;
+    }
+  | { id: number; type: "close"; name: string }
+  | { id: number; type: "remove"; name: string }
+  | { id: number; type: "clear" };
+
+export interface OPFSWorkerResponse {
+  id: number;
+  error?: { name: string; message: string };
+}
+
+// Minimal shape of FileSystemSyncAccessHandle. The real type lives in the
+// "webworker" lib, which can't be loaded next to "dom" in one program.
+interface SyncAccessHandle {
+  write(buffer: ArrayBuffer, options?: { at?: number }): number;
+  flush(): void;
+  close(): void;
+}
+
+// FileSystemFileHandle as it is in dedicated workers
+interface WorkerFileHandle extends FileSystemFileHandle {
+  createSyncAccessHandle(): Promise<SyncAccessHandle>;
+}
+
+// Only one sync handle may be open per file, so we keep them until "close".
+const handles: Map<string, SyncAccessHandle> = new Map();
+
+async function getDirectory(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(OPFS_DIR, { create: true });
+}
+
+async function getHandle(name: string): Promise<SyncAccessHandle> {
+  let handle = handles.get(name);
+  if (!handle) {
+    const dir = await getDirectory();
+    const fileHandle = (await dir.getFileHandle(name, {
+      create: true,
+    })) as WorkerFileHandle;
+    handle = await fileHandle.createSyncAccessHandle();
+    handles.set(name, handle);
+  }
+  return handle;
+}
+
+function closeHandle(name: string) {
+  const handle = handles.get(name);
+  if (handle) {
+    handle.flush();
+    handle.close();
+    handles.delete(name);
+  }
+}
+
+async function handleRequest(req: OPFSWorkerRequest): Promise<void> {
+  switch (req.type) {
+    case "write": {
+      const handle = await getHandle(req.name);
+      handle.write(req.data, { at: req.position });
+      break;
+    }
+    case "close":
+      closeHandle(req.name);
+      break;
+    case "remove": {
+      closeHandle(req.name);
+      const dir = await getDirectory();
+      try {
+        await dir.removeEntry(req.name);
+      } catch (err) {
+        // Nothing to remove
+        if (!(err instanceof DOMException && err.name === "NotFoundError")) {
+          throw err;
+        }
+      }
+      break;
+    }
+    case "clear": {
+      for (const name of [...handles.keys()]) {
+        closeHandle(name);
+      }
+      const root = await navigator.storage.getDirectory();
+      try {
+        await root.removeEntry(OPFS_DIR, { recursive: true });
+      } catch (err) {
+        if (!(err instanceof DOMException && err.name === "NotFoundError")) {
+          throw err;
+        }
+      }
+      break;
+    }
+  }
+}
+
+// Requests are processed one at a time so writes to the same handle never overlap.
+let chain: Promise<void> = Promise.resolve();
+
+self.onmessage = (e: MessageEvent<OPFSWorkerRequest>) => {
+  const req = e.data;
+  chain = chain.then(async () => {
+    const response: OPFSWorkerResponse = { id: req.id };
+    try {
+      await handleRequest(req);
+    } catch (err) {
+      response.error = { name: err.name, message: err.message };
+    }
+    self.postMessage(response);
+  });
+};
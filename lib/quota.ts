@@ -0,0 +1,76 @@
+/* NOTE: Helpers around the origin's storage quota. IndexedDB and OPFS
+  share it, so free space is estimated once for both. Tasks check that
+  the rest of their download fits before they download; the bytes that
+  running tasks still have to store are tracked here, so tasks starting
+  side by side don't all count on the same free space.
+*/
+
+// Task id -> bytes it still has to store
+const outstanding: Map<string, () => number> = new Map();
+
+/**
+ * Free bytes left in the origin's quota, per `navigator.storage.estimate()`,
+ * or null where the browser can't tell. Browsers round the figures, so
+ * treat it as an estimate.
+ */
+export async function estimateAvailableSpace(): Promise<number | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { quota, usage } = await navigator.storage.estimate();
+  if (quota === undefined || usage === undefined) return null;
+  return Math.max(0, quota - usage);
+}
+
+/**
+ * Asks the browser not to evict this origin's storage under pressure.
+ * Resolves with whether storage is persistent. Some browsers only grant
+ * it to installed or frequently used sites, or prompt the user.
+ */
+export async function requestPersistence(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+    return false;
+  }
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
+
+let persistence: Promise<boolean> | null = null;
+
+/**
+ * requestPersistence(), asked once per page. Warns when the browser
+ * declines, since downloads may then be evicted before they are saved.
+ */
+export function ensurePersistence(): Promise<boolean> {
+  persistence ??= requestPersistence().then(
+    (granted) => {
+      if (!granted) {
+        console.warn("Storage is not persistent; the browser may evict it.");
+      }
+      return granted;
+    },
+    (err) => {
+      console.warn("Failed to request persistent storage.", err);
+      return false;
+    },
+  );
+  return persistence;
+}
+
+/** Counts the bytes `remaining()` reports against the free space. */
+export function reserveSpace(taskId: string, remaining: () => number) {
+  outstanding.set(taskId, remaining);
+}
+
+export function releaseSpace(taskId: string) {
+  outstanding.delete(taskId);
+}
+
+/** Bytes the running tasks, other than `exceptTaskId`, still have to store. */
+export function getReservedSpace(exceptTaskId?: string): number {
+  let total = 0;
+  for (const [taskId, remaining] of outstanding) {
+    if (taskId !== exceptTaskId) total += Math.max(0, remaining());
+  }
+  return total;
+}
@@ -0,0 +1,74 @@
+import { DownloaderError } from "./errors";
+
+/**
+ * Token bucket measured in bytes. Requests consume their size up front
+ * and may overdraw the bucket; callers wait for getDelay() before starting
+ * the next request, so the average rate stays at the limit.
+ * A `null` limit means unlimited.
+ */
+export class RateLimiter {
+  private bytesPerSecond: number | null = null;
+  private tokens = 0;
+  private lastRefill = Date.now();
+
+  constructor(bytesPerSecond: number | null = null) {
+    this.setLimit(bytesPerSecond);
+  }
+
+  getLimit(): number | null {
+    return this.bytesPerSecond;
+  }
+
+  /** Changes the limit; takes effect for the next request. */
+  setLimit(bytesPerSecond: number | null) {
+    if (bytesPerSecond !== null && !(bytesPerSecond > 0)) {
+      throw new DownloaderError(`Invalid bandwidth limit: ${bytesPerSecond}`);
+    }
+    this.refill();
+    const wasUnlimited = this.bytesPerSecond === null;
+    this.bytesPerSecond = bytesPerSecond;
+
+    if (bytesPerSecond === null) {
+      this.tokens = 0;
+    } else if (wasUnlimited) {
+      // Start with a full bucket (one second of burst)
+      this.tokens = bytesPerSecond;
+    } else {
+      this.tokens = Math.min(this.tokens, bytesPerSecond);
+    }
+  }
+
+  consume(bytes: number) {
+    if (this.bytesPerSecond === null || bytes <= 0) return;
+    this.refill();
+    this.tokens -= bytes;
+  }
+
+  /** Returns bytes that were consumed but never used. */
+  refund(bytes: number) {
+    if (this.bytesPerSecond === null || bytes <= 0) return;
+    this.refill();
+    this.tokens = Math.min(this.bytesPerSecond, this.tokens + bytes);
+  }
+
+  /** Milliseconds until the bucket is out of debt. */
+  getDelay(): number {
+    if (this.bytesPerSecond === null) return 0;
+    this.refill();
+    if (this.tokens >= 0) return 0;
+    return Math.ceil((-this.tokens / this.bytesPerSecond) * 1000);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.lastRefill = now;
+    if (this.bytesPerSecond === null) return;
+
+    // Capacity is one second's worth, so idle time can't bank a huge burst
+    this.tokens = Math.min(
+      this.bytesPerSecond,
+      this.tokens + elapsed * this.bytesPerSecond,
+    );
+  }
+}
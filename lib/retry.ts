@@ -0,0 +1,124 @@
+import { HttpError, NetworkError } from "./errors";
+
+/**
+ * How the backoff delay is randomized:
+ * - "none": exactly base * 2^(retry - 1), capped at maxDelay
+ * - "full": uniformly random between 0 and that delay
+ * - "equal": half the delay plus a random half
+ */
+export type JitterStrategy = "none" | "full" | "equal";
+
+export interface RetryPolicy {
+  /** Attempts per chunk, including the first one. Defaults to 4. */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms, doubled for each one after. Defaults to 1000. */
+  baseDelay?: number;
+  /** Upper bound for the computed delay in ms. Defaults to 30000. */
+  maxDelay?: number;
+  /** Defaults to "none". */
+  jitter?: JitterStrategy;
+  /** HTTP statuses worth retrying. Defaults to 408, 429, 500, 502, 503 and 504. */
+  retryableStatuses?: number[];
+  /**
+   * Error classes worth retrying, besides HttpErrors with a retryable
+   * status. Defaults to `[NetworkError]`.
+   */
+  retryableErrors?: (new (...args: any[]) => Error)[];
+  /**
+   * Wait at least as long as a `Retry-After` header asks, even beyond
+   * maxDelay. Defaults to true.
+   */
+  respectRetryAfter?: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 4,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: "none",
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableErrors: [NetworkError],
+  respectRetryAfter: true,
+};
+
+/**
+ * Merges policies field by field; later ones win.
+ */
+export function mergeRetryPolicies(
+  ...policies: (RetryPolicy | undefined)[]
+): RetryPolicy {
+  const merged: RetryPolicy = {};
+  for (const policy of policies) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+export function resolveRetryPolicy(
+  policy: RetryPolicy = {},
+): Required<RetryPolicy> {
+  return mergeRetryPolicies(DEFAULT_RETRY_POLICY, policy) as Required<
+    RetryPolicy
+  >;
+}
+
+export function isRetryable(
+  policy: Required<RetryPolicy>,
+  error: Error,
+): boolean {
+  if (error instanceof HttpError) {
+    return policy.retryableStatuses.includes(error.statusCode);
+  }
+  return policy.retryableErrors.some(
+    (ErrorClass) => error instanceof ErrorClass,
+  );
+}
+
+/**
+ * Delay in ms before retry number `retry` (1-based). `retryAfter` is the
+ * server's requested delay, if any.
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  retry: number,
+  retryAfter: number | null = null,
+): number {
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(2, retry - 1),
+  );
+
+  let delay = backoff;
+  if (policy.jitter === "full") {
+    delay = Math.random() * backoff;
+  } else if (policy.jitter === "equal") {
+    delay = backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  if (policy.respectRetryAfter && retryAfter !== null) {
+    delay = Math.max(delay, retryAfter);
+  }
+  return Math.round(delay);
+}
+
+/**
+ * Parses a `Retry-After` header (seconds or an HTTP date) into ms.
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now = Date.now(),
+): number | null {
+  if (!header) return null;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
@@ -0,0 +1,169 @@
+import type {
+  Transport,
+  TransportHandle,
+  TransportHandlers,
+  TransportRequest,
+  TransportResponse,
+} from "./transport";
+
+/* NOTE: A fake Transport for tests. Nothing touches the network: every
+  request is answered from a script, one step per timer tick, so the
+  DownloadTask state transitions it drives happen in a fixed order.
+*/
+
+export type ScriptedReply =
+  | {
+      status: number;
+      statusText?: string;
+      headers?: Record<string, string>;
+      body?: Uint8Array<ArrayBuffer>;
+      /** Delivers the body in this many pieces. Defaults to 1. */
+      parts?: number;
+      /** Stops sending after this many body bytes and never finishes. */
+      hangAfter?: number;
+    }
+  | { error: Error } // Fails before any response arrives
+  | { hang: true }; // Never answers
+
+export type ScriptedResponder = (request: TransportRequest) => ScriptedReply;
+
+export interface ScriptedTransportOptions {
+  /**
+   * Deliver bodies through onData like FetchTransport, rather than as a
+   * Blob at the end like XhrTransport. Defaults to true.
+   */
+  streaming?: boolean;
+}
+
+export class ScriptedTransport implements Transport {
+  /** Every request sent, in order. */
+  readonly requests: TransportRequest[] = [];
+  private queued: ScriptedReply[] = [];
+  private respond: ScriptedResponder;
+  private streaming: boolean;
+
+  /**
+   * `respond` answers every request that queued replies don't cover;
+   * without one those requests hang.
+   */
+  constructor(
+    respond: ScriptedResponder = () => ({ hang: true }),
+    options: ScriptedTransportOptions = {},
+  ) {
+    this.respond = respond;
+    this.streaming = options.streaming ?? true;
+  }
+
+  /** Queues replies for the next requests, in order. */
+  reply(...replies: ScriptedReply[]) {
+    this.queued.push(...replies);
+  }
+
+  send(
+    request: TransportRequest,
+    handlers: TransportHandlers,
+  ): TransportHandle {
+    this.requests.push(request);
+    const reply = this.queued.shift() ?? this.respond(request);
+    let aborted = false;
+    const steps = this.plan(request, reply, handlers);
+
+    const next = () => {
+      if (aborted) return;
+      const step = steps.shift();
+      if (!step) return;
+      step();
+      setTimeout(next, 0);
+    };
+    setTimeout(next, 0);
+
+    return {
+      abort() {
+        aborted = true;
+      },
+    };
+  }
+
+  private plan(
+    request: TransportRequest,
+    reply: ScriptedReply,
+    handlers: TransportHandlers,
+  ): (() => void)[] {
+    if ("hang" in reply) return [];
+    if ("error" in reply) return [() => handlers.onError(reply.error)];
+
+    const headers = new Map(
+      Object.entries(reply.headers ?? {}).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ]),
+    );
+    const response: TransportResponse = {
+      status: reply.status,
+      statusText: reply.statusText ?? "",
+      getHeader: (name) => headers.get(name.toLowerCase()) ?? null,
+    };
+    const body =
+      request.method === "HEAD"
+        ? new Uint8Array(0)
+        : (reply.body ?? new Uint8Array(0));
+    const end = Math.min(body.length, reply.hangAfter ?? body.length);
+
+    const steps: (() => void)[] = [() => handlers.onHeaders?.(response)];
+    const parts = Math.max(1, reply.parts ?? 1);
+    const partSize = Math.ceil(body.length / parts) || 1;
+    for (let offset = 0; offset < end; offset += partSize) {
+      const piece = body.subarray(offset, Math.min(end, offset + partSize));
+      const loaded = offset + piece.length;
+      steps.push(() => {
+        if (this.streaming) handlers.onData?.(piece);
+        handlers.onProgress?.(loaded);
+      });
+    }
+    if (reply.hangAfter === undefined) {
+      steps.push(() =>
+        handlers.onLoad(response, this.streaming ? null : new Blob([body])),
+      );
+    }
+    return steps;
+  }
+}
+
+/**
+ * A responder that serves `data` like a static file server: HEAD,
+ * whole-file GET and single byte ranges, with `headers` on every response.
+ */
+export function serveBytes(
+  data: Uint8Array<ArrayBuffer>,
+  headers: Record<string, string> = {},
+): ScriptedResponder {
+  return (request) => {
+    const range = /^bytes=(\d+)-(\d*)$/.exec(request.headers["Range"] ?? "");
+    const common = { "Accept-Ranges": "bytes", ...headers };
+    if (!range) {
+      return {
+        status: 200,
+        headers: { ...common, "Content-Length": String(data.length) },
+        body: data,
+      };
+    }
+
+    const start = Number(range[1]);
+    const end = Math.min(data.length - 1, Number(range[2] || data.length - 1));
+    if (start >= data.length) {
+      return {
+        status: 416,
+        headers: { ...common, "Content-Range": `bytes */${data.length}` },
+      };
+    }
+    return {
+      status: 206,
+      headers: {
+        ...common,
+        "Content-Length": String(end - start + 1),
+        "Content-Range": `bytes ${start}-${end}/${data.length}`,
+      },
+      body: data.subarray(start, end + 1),
+    };
+  };
+}
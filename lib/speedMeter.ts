@@ -0,0 +1,85 @@
+// Window for the instantaneous speed
+const CURRENT_WINDOW = 1000;
+// Window for the moving-average speed used for ETAs
+const AVERAGE_WINDOW = 10000;
+
+interface Sample {
+  time: number;
+  bytes: number; // Total bytes received up to this point
+}
+
+/**
+ * Measures transfer speed and active time. Only time between start() and
+ * stop() counts, so paused periods are excluded from both.
+ */
+export class SpeedMeter {
+  private samples: Sample[] = [];
+  private received = 0;
+  private activeSince: number | null = null;
+  private activeTime: number;
+
+  /** `elapsed` carries active time over from an earlier session, in ms. */
+  constructor(elapsed = 0) {
+    this.activeTime = elapsed;
+  }
+
+  start(now = Date.now()) {
+    if (this.activeSince !== null) return;
+    this.activeSince = now;
+    this.samples = [{ time: now, bytes: this.received }];
+  }
+
+  stop(now = Date.now()) {
+    if (this.activeSince === null) return;
+    this.activeTime += now - this.activeSince;
+    this.activeSince = null;
+    // Speed after a pause is measured from the resume onwards
+    this.samples = [];
+  }
+
+  /** Records bytes received from the network. */
+  record(bytes: number, now = Date.now()) {
+    if (bytes <= 0 || this.activeSince === null) return;
+    this.received += bytes;
+    this.samples.push({ time: now, bytes: this.received });
+
+    // Keep one sample older than the window as its baseline
+    while (
+      this.samples.length > 2 &&
+      this.samples[1].time <= now - AVERAGE_WINDOW
+    ) {
+      this.samples.shift();
+    }
+  }
+
+  /** Active time in ms. */
+  getElapsed(now = Date.now()): number {
+    const current = this.activeSince === null ? 0 : now - this.activeSince;
+    return this.activeTime + current;
+  }
+
+  /** Bytes per second over roughly the last second. */
+  getCurrentSpeed(now = Date.now()): number {
+    return this.getSpeed(CURRENT_WINDOW, now);
+  }
+
+  /** Bytes per second over roughly the last ten seconds. */
+  getAverageSpeed(now = Date.now()): number {
+    return this.getSpeed(AVERAGE_WINDOW, now);
+  }
+
+  private getSpeed(window: number, now: number): number {
+    if (this.activeSince === null || this.samples.length === 0) return 0;
+
+    // Latest sample at or before the window start, else the oldest one
+    let baseline = this.samples[0];
+    for (const sample of this.samples) {
+      if (sample.time > now - window) break;
+      baseline = sample;
+    }
+
+    const span = now - baseline.time;
+    if (span <= 0) return 0;
+    return ((this.received - baseline.bytes) / span) * 1000;
+  }
+}
@@ -1,4 +1,6 @@
 import { IDBPDatabase, openDB } from "idb";
+import type { DownloadTaskOptions, DownloadTaskState } from "./DownloadTask";
+import { estimateAvailableSpace } from "./quota";
 
 /* NOTE: This implementation uses the 'idb' library.
   It wraps the native IndexedDB API (which is event-based) into a Promise-based API,
@@ -8,44 +10,171 @@ import { IDBPDatabase, openDB } from "idb";
 const DB_NAME = "downloaderDB";
 const METADATA_STORE = "taskMetadata";
 const CHUNK_STORE = "taskChunks";
+const JOB_STORE = "jobs";
 
 export interface TaskMetadata {
+  id: string; // DownloadTask.id, the primary key
   url: string;
   filename: string;
   totalBytes: number;
   downloadedBytes: number;
   supportsResume: boolean;
-  chunkSize: number;
+  chunkSize: number; // Adaptive size for the next chunks
+  // [start, end] (inclusive) byte range of each chunk, by index. Chunk
+  // sizes vary, so offsets can't be derived from `chunkSize`. Missing on
+  // records written before adaptive chunk sizing.
+  chunkRanges?: [number, number][];
+  // Indices of saved chunks. With parallel connections these need not be
+  // contiguous. Missing on records written before parallel fetching.
+  completedChunks?: number[];
+  // Digest to verify the finished file against (see DownloadTaskOptions)
+  expectedDigest?: string;
+  // Validators of the file version the stored chunks belong to
+  etag?: string;
+  lastModified?: string;
+  // Active download time in ms, excluding time spent paused
+  elapsed?: number;
 }
 
 export interface TaskChunk {
-  url: string;
+  taskId: string;
   index: number;
+  // Byte offset of this chunk within the file. Chunks read back from
+  // before it was stored (including v1/v2 databases) lack it.
+  offset: number;
   blob: Blob;
 }
 
-class DownloadStorage {
-  private dbPromise: Promise<IDBPDatabase>;
+/**
+ * A persisted DownloadJob, used by DownloadManager.restore() to rebuild
+ * jobs after a page reload.
+ */
+export interface JobRecord {
+  id: string;
+  // Only the JSON-serializable options (no storage, limiter, signal,
+  // transport, coordinator or callbacks)
+  options: Omit<
+    DownloadTaskOptions,
+    "storage" | "rateLimiter" | "signal" | "transport" | "coordinator"
+  >;
+  tasks: {
+    id: string;
+    url: string;
+    mirrors?: string[];
+    filename: string;
+    state: DownloadTaskState;
+    totalBytes: number;
+    elapsed?: number; // Active time in ms
+  }[];
+  createdAt: number;
+  elapsed?: number; // Active time in ms
+}
+
+/**
+ * Where a task keeps its metadata and chunk data.
+ * Implementations: IndexedDBStorage (default), MemoryStorage and OPFSStorage.
+ */
+export interface StorageAdapter {
+  getMetadata(taskId: string): Promise<TaskMetadata | undefined>;
+  saveMetadata(metadata: TaskMetadata): Promise<void>;
+  clearMetadata(taskId: string): Promise<void>;
+  saveChunk(chunk: TaskChunk): Promise<void>;
+  getChunks(taskId: string): Promise<TaskChunk[]>;
+  clearChunks(taskId: string): Promise<void>;
+  clearAllData(): Promise<void>;
+  getJobs(): Promise<JobRecord[]>;
+  saveJob(job: JobRecord): Promise<void>;
+  clearJob(id: string): Promise<void>;
+  /**
+   * Only for adapters that write chunks into a single file. When present,
+   * the task asks for the finished file instead of joining chunks itself,
+   * and keeps the file after completion.
+   */
+  getFile?(taskId: string): Promise<File>;
+  /**
+   * Free bytes left for this storage, or null when unknown. Tasks check
+   * that the rest of a download fits before downloading; adapters without
+   * it, such as MemoryStorage, skip that check.
+   */
+  getAvailableSpace?(): Promise<number | null>;
+}
+
+export class IndexedDBStorage implements StorageAdapter {
+  private dbPromise: Promise<IDBPDatabase> | null = null;
+  private name: string;
+
+  /** Storages with different database names don't see each other's data. */
+  constructor(name = DB_NAME) {
+    this.name = name;
+  }
 
-  constructor() {
+  // The DB is opened on first use so that merely importing the SDK doesn't
+  // touch IndexedDB (it may be disabled, e.g. in private browsing).
+  private getDB(): Promise<IDBPDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.open();
+    }
+    return this.dbPromise;
+  }
+
+  private open(): Promise<IDBPDatabase> {
     // openDB(name, version, callbacks): Opens connection to IDB.
-    this.dbPromise = openDB(DB_NAME, 1, {
+    // Version 2 added the job store. Version 3 keys everything by task id.
+    return openDB(this.name, 3, {
       // 'upgrade' only runs if the browser has an older version or no DB at all.
       // This is where we define the schema (create 'tables' and indices).
-      upgrade(db) {
+      async upgrade(db, oldVersion, _newVersion, tx) {
         // Create the Metadata Store (like a SQL Table)
         if (!db.objectStoreNames.contains(METADATA_STORE)) {
-          // keyPath: 'url' means the object's "url" property is the Primary Key.
-          db.createObjectStore(METADATA_STORE, { keyPath: "url" });
+          // keyPath: 'id' means the object's "id" property is the Primary Key.
+          db.createObjectStore(METADATA_STORE, { keyPath: "id" });
         }
         // Create the Chunk Store
         if (!db.objectStoreNames.contains(CHUNK_STORE)) {
           const store = db.createObjectStore(CHUNK_STORE, {
             autoIncrement: true, // IDB generates a unique key automatically
           });
-          // Create an Index to efficiently search chunks by "url" AND "index".
-          // This allows us to query: "Get chunk 5 for specific-url.com"
-          store.createIndex("url_index", ["url", "index"], { unique: true });
+          // Create an Index to efficiently search chunks by "taskId" AND "index".
+          // This allows us to query: "Get chunk 5 for task abc"
+          store.createIndex("task_index", ["taskId", "index"], { unique: true });
+        }
+        // Create the Job Store (persisted DownloadJob definitions)
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: "id" });
+        }
+
+        // Versions 1-2 keyed records by URL. Migrated records use their
+        // URL as the task id, so tasks created with `id: url` find them.
+        if (oldVersion > 0 && oldVersion < 3) {
+          // A store's keyPath can't change, so copy into a new store.
+          const oldMetadata = await tx.objectStore(METADATA_STORE).getAll();
+          db.deleteObjectStore(METADATA_STORE);
+          const metadataStore = db.createObjectStore(METADATA_STORE, {
+            keyPath: "id",
+          });
+          for (const metadata of oldMetadata) {
+            metadataStore.put({ ...metadata, id: metadata.url });
+          }
+
+          const chunkStore = tx.objectStore(CHUNK_STORE);
+          let cursor = await chunkStore.openCursor();
+          while (cursor) {
+            const { url, ...chunk } = cursor.value;
+            cursor.update({ ...chunk, taskId: url });
+            cursor = await cursor.continue();
+          }
+          chunkStore.deleteIndex("url_index");
+          chunkStore.createIndex("task_index", ["taskId", "index"], {
+            unique: true,
+          });
+
+          const jobStore = tx.objectStore(JOB_STORE);
+          for (const job of await jobStore.getAll()) {
+            job.tasks.forEach((task: JobRecord["tasks"][number]) => {
+              task.id ??= task.url;
+            });
+            jobStore.put(job);
+          }
         }
       },
     });
@@ -53,30 +182,30 @@ class DownloadStorage {
 
   // --- Metadata Methods ---
 
-  async getMetadata(url: string): Promise<TaskMetadata | undefined> {
+  async getMetadata(taskId: string): Promise<TaskMetadata | undefined> {
     // .get(store, key): Simple key-value lookup (like Map.get)
-    return (await this.dbPromise).get(METADATA_STORE, url);
+    return (await this.getDB()).get(METADATA_STORE, taskId);
   }
 
   async saveMetadata(metadata: TaskMetadata): Promise<void> {
     // .put(store, value): Inserts or Updates (Upsert) the record.
-    await (await this.dbPromise).put(METADATA_STORE, metadata);
+    await (await this.getDB()).put(METADATA_STORE, metadata);
   }
 
-  async clearMetadata(url: string): Promise<void> {
-    await (await this.dbPromise).delete(METADATA_STORE, url);
+  async clearMetadata(taskId: string): Promise<void> {
+    await (await this.getDB()).delete(METADATA_STORE, taskId);
   }
 
   // --- Chunk Methods ---
 
   async saveChunk(chunk: TaskChunk): Promise<void> {
-    const db = await this.dbPromise;
+    const db = await this.getDB();
     // Transactions ensure data integrity. "readwrite" is required for modifications.
     const tx = db.transaction(CHUNK_STORE, "readwrite");
-    const index = tx.store.index("url_index");
+    const index = tx.store.index("task_index");
 
     // Check via the composite index if this specific chunk already exists
-    const existingKey = await index.getKey([chunk.url, chunk.index]);
+    const existingKey = await index.getKey([chunk.taskId, chunk.index]);
     if (existingKey) {
       // Overwrite existing record using its primary key
       await tx.store.put({ ...chunk }, existingKey);
@@ -87,28 +216,28 @@ class DownloadStorage {
     await tx.done; // Wait for transaction to commit
   }
 
-  async getChunks(url: string): Promise<TaskChunk[]> {
-    const db = await this.dbPromise;
+  async getChunks(taskId: string): Promise<TaskChunk[]> {
+    const db = await this.getDB();
     // getAllFromIndex: Fetches all records matching a query on an index.
-    // IDBKeyRange.bound: Limits query to this specific URL, from index 0 to Infinity.
+    // IDBKeyRange.bound: Limits query to this specific task, from index 0 to Infinity.
     const chunks = await db.getAllFromIndex(
       CHUNK_STORE,
-      "url_index",
-      IDBKeyRange.bound([url, 0], [url, Infinity]),
+      "task_index",
+      IDBKeyRange.bound([taskId, 0], [taskId, Infinity]),
     );
     // IDB doesn't guarantee perfect return order, so we sort in memory.
     return chunks.sort((a, b) => a.index - b.index);
   }
 
-  async clearChunks(url: string): Promise<void> {
-    const db = await this.dbPromise;
+  async clearChunks(taskId: string): Promise<void> {
+    const db = await this.getDB();
     const tx = db.transaction(CHUNK_STORE, "readwrite");
-    const index = tx.store.index("url_index");
+    const index = tx.store.index("task_index");
 
     // openCursor: Iterates over records one by one within the specified range.
     // This is more memory efficient than getting all items and deleting them.
     let cursor = await index.openCursor(
-      IDBKeyRange.bound([url, 0], [url, Infinity]),
+      IDBKeyRange.bound([taskId, 0], [taskId, Infinity]),
     );
 
     while (cursor) {
@@ -119,12 +248,32 @@ class DownloadStorage {
   }
 
   async clearAllData(): Promise<void> {
-    const db = await this.dbPromise;
+    const db = await this.getDB();
     // .clear(): Wipes everything in the store. Truncate table equivalent.
     await db.clear(METADATA_STORE);
     await db.clear(CHUNK_STORE);
+    await db.clear(JOB_STORE);
+  }
+
+  // --- Job Methods ---
+
+  async getJobs(): Promise<JobRecord[]> {
+    const jobs: JobRecord[] = await (await this.getDB()).getAll(JOB_STORE);
+    return jobs.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveJob(job: JobRecord): Promise<void> {
+    await (await this.getDB()).put(JOB_STORE, job);
+  }
+
+  async clearJob(id: string): Promise<void> {
+    await (await this.getDB()).delete(JOB_STORE, id);
+  }
+
+  getAvailableSpace(): Promise<number | null> {
+    return estimateAvailableSpace();
   }
 }
 
-// Export a singleton instance
-export const downloadStorage = new DownloadStorage();
+// Export a singleton instance (the default storage for every task)
+export const downloadStorage = new IndexedDBStorage();
@@ -0,0 +1,269 @@
+import type {
+  DownloadTaskEvents,
+  DownloadTaskProgress,
+  DownloadTaskState,
+} from "./DownloadTask";
+import { fromTaskEventData, toTaskEventData } from "./errors";
+
+/* NOTE: Keeps tabs of the same origin from downloading the same task at
+  once, which would have them overwrite each other's chunks. Whoever
+  starts a task first takes its Web Lock and owns it. Tabs starting it
+  later become observers: they mirror the owner's events, which arrive
+  over a BroadcastChannel, and wait in line for the lock. The browser
+  releases the lock when the owner's tab closes, so the next tab in line
+  takes over and continues from the saved chunks.
+*/
+
+const DEFAULT_NAME = "downloader";
+// How long a tab that got the lock waits for the owner's last message,
+// which a crashed tab never sends. It then goes by the saved chunks alone.
+const HANDOVER_TIMEOUT = 1000;
+
+export type TaskRole = "owner" | "observer";
+
+/** An event of the owning tab's task, with its state afterwards. */
+export interface TaskUpdate {
+  event: keyof DownloadTaskEvents | null; // null: just the current state
+  payload: unknown;
+  state: DownloadTaskState;
+  progress: DownloadTaskProgress;
+}
+
+export interface ClaimHandlers {
+  /** This tab owns the task now, at first or after the owner left. */
+  onOwn(): void;
+  /** Another tab owns the task; updates follow. */
+  onObserve(): void;
+  onUpdate(update: TaskUpdate): void;
+  /** The task's current state, sent to observers that join. */
+  getSnapshot(): Pick<TaskUpdate, "state" | "progress">;
+}
+
+export interface TaskClaim {
+  readonly role: TaskRole | null; // null until the lock is decided
+  /** Sends an event of the owned task to the observers. */
+  publish<K extends keyof DownloadTaskEvents>(
+    event: K,
+    payload: DownloadTaskEvents[K],
+  ): void;
+  /** Lets go of the task, or stops observing it. */
+  release(): void;
+}
+
+type CoordinatorMessage =
+  // An observer asks the owner for the current state
+  | { type: "join"; taskId: string }
+  | ({ type: "update"; taskId: string } & TaskUpdate)
+  // The owner lets go of the lock; its last message, with the final state
+  | ({ type: "release"; taskId: string } & Pick<
+      TaskUpdate,
+      "state" | "progress"
+    >)
+  // The owner's tab is closing. It pauses its downloads on the way out,
+  // which observers shouldn't copy: the next owner continues them.
+  | { type: "leave"; taskIds: string[] }
+  // An observer took over; the updates that follow are its
+  | { type: "own"; taskId: string };
+
+interface Claimant {
+  handlers: ClaimHandlers;
+  role: TaskRole | null;
+  leaving: boolean; // The owner's tab is closing
+  handedOver: boolean; // The owner's last message has arrived
+  onHandover: (() => void) | null; // Waiting for it, see waitForHandover()
+}
+
+export class TabCoordinator {
+  private name: string;
+  private channel: BroadcastChannel;
+  private claimants: Map<string, Claimant> = new Map(); // By task id
+  private closed = false;
+
+  /** Coordinators with the same `name` coordinate with each other. */
+  constructor(name = DEFAULT_NAME) {
+    this.name = name;
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  static isSupported(): boolean {
+    return (
+      typeof BroadcastChannel !== "undefined" &&
+      typeof navigator !== "undefined" &&
+      !!navigator.locks
+    );
+  }
+
+  /**
+   * Takes the task's lock if no other tab holds it; otherwise observes the
+   * tab that does, and takes over once it lets go.
+   */
+  claim(taskId: string, handlers: ClaimHandlers): TaskClaim {
+    const lockName = `${this.name}:${taskId}`;
+    const claimant: Claimant = {
+      handlers,
+      role: null,
+      leaving: false,
+      handedOver: false,
+      onHandover: null,
+    };
+    const waiting = new AbortController();
+    let released = false;
+    let unlock = () => {};
+
+    // Holds the lock until release(), or until the tab closes
+    const own = () => {
+      if (released) return;
+      if (claimant.role === "observer") this.post({ type: "own", taskId });
+      claimant.role = "owner";
+      handlers.onOwn();
+      return new Promise<void>((resolve) => (unlock = resolve));
+    };
+
+    this.claimants.set(taskId, claimant);
+    navigator.locks.request(lockName, { ifAvailable: true }, (lock) => {
+      if (lock) return own();
+      if (released) return;
+      claimant.role = "observer";
+      handlers.onObserve();
+      this.post({ type: "join", taskId });
+      // Not awaited, or this callback would hold the (missing) lock open
+      navigator.locks
+        .request(lockName, { signal: waiting.signal }, async () => {
+          // The owner's last messages may still be on their way, e.g. the
+          // "complete" that ends this claim; they go first
+          await this.waitForHandover(claimant);
+          return own();
+        })
+        .catch(() => {}); // Aborted by release()
+    });
+
+    return {
+      get role() {
+        return claimant.role;
+      },
+      publish: (event, payload) => {
+        if (claimant.role !== "owner") return;
+        this.post({
+          type: "update",
+          taskId,
+          event,
+          // Errors don't keep their class through structured cloning
+          payload: toTaskEventData(event, payload),
+          ...handlers.getSnapshot(),
+        });
+      },
+      release: () => {
+        if (claimant.role === "owner" && !released) {
+          this.post({ type: "release", taskId, ...handlers.getSnapshot() });
+        }
+        released = true;
+        waiting.abort();
+        claimant.onHandover?.(); // Got the lock meanwhile; let it go
+        unlock();
+        if (this.claimants.get(taskId) === claimant) {
+          this.claimants.delete(taskId);
+        }
+      },
+    };
+  }
+
+  /** Stops sending and receiving. Locks already held stay held. */
+  close() {
+    this.closed = true;
+    this.channel.close();
+  }
+
+  /**
+   * Tells the observers that this tab is closing. Call it before pausing
+   * the downloads on the way out: the observers then don't copy the pause,
+   * and the next owner continues them.
+   */
+  leave() {
+    const taskIds = [...this.claimants]
+      .filter(([, claimant]) => claimant.role === "owner")
+      .map(([taskId]) => taskId);
+    if (taskIds.length > 0) {
+      this.post({ type: "leave", taskIds });
+    }
+  }
+
+  private handleMessage(message: CoordinatorMessage) {
+    if (message.type === "leave") {
+      for (const taskId of message.taskIds) {
+        const claimant = this.claimants.get(taskId);
+        if (claimant?.role !== "observer") continue;
+        claimant.leaving = true;
+        this.handOver(claimant);
+      }
+      return;
+    }
+
+    const claimant = this.claimants.get(message.taskId);
+    if (message.type === "own") {
+      if (claimant?.role !== "observer") return;
+      claimant.leaving = false;
+      claimant.handedOver = false;
+    } else if (message.type === "release") {
+      if (claimant?.role !== "observer") return;
+      if (!claimant.leaving) {
+        claimant.handlers.onUpdate({
+          event: null,
+          payload: undefined,
+          state: message.state,
+          progress: message.progress,
+        });
+      }
+      this.handOver(claimant);
+    } else if (message.type === "join") {
+      if (claimant?.role !== "owner") return;
+      this.post({
+        type: "update",
+        taskId: message.taskId,
+        event: null,
+        payload: undefined,
+        ...claimant.handlers.getSnapshot(),
+      });
+    } else if (claimant?.role === "observer" && !claimant.leaving) {
+      const { type, taskId, ...update } = message;
+      claimant.handlers.onUpdate({
+        ...update,
+        payload: update.event
+          ? fromTaskEventData(update.event, update.payload)
+          : update.payload,
+      });
+    }
+  }
+
+  /**
+   * Settles once the owner's last message has arrived: "release", or
+   * "leave" when its tab closed. Also settles after HANDOVER_TIMEOUT,
+   * since a tab that crashed sends neither.
+   */
+  private waitForHandover(claimant: Claimant): Promise<void> {
+    if (claimant.handedOver) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => claimant.onHandover?.(), HANDOVER_TIMEOUT);
+      claimant.onHandover = () => {
+        clearTimeout(timer);
+        claimant.onHandover = null;
+        resolve();
+      };
+    });
+  }
+
+  private handOver(claimant: Claimant) {
+    claimant.handedOver = true;
+    claimant.onHandover?.();
+  }
+
+  private post(message: CoordinatorMessage) {
+    if (this.closed) return;
+    try {
+      this.channel.postMessage(message);
+    } catch (err) {
+      // Never let the other tabs break this tab's download
+      console.warn("TabCoordinator: Failed to post to other tabs.", err);
+    }
+  }
+}
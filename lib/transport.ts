@@ -0,0 +1,114 @@
+import { NetworkError, TimeoutError } from "./errors";
+
+/* NOTE: All network I/O of a DownloadTask goes through a Transport, so it
+  can run where XMLHttpRequest doesn't exist (workers, Node) and be
+  scripted in tests. XhrTransport is the default in browsers; FetchTransport
+  streams response bodies, which lets partial chunks be saved.
+*/
+
+export interface TransportRequest {
+  method: "GET" | "HEAD";
+  url: string;
+  headers: Record<string, string>;
+  /** Send cookies and HTTP auth with cross-origin requests. */
+  withCredentials: boolean;
+  /** Time for the whole request in ms, 0 for none. */
+  timeout: number;
+}
+
+/** Status and headers of a response, available before its body. */
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  getHeader(name: string): string | null;
+}
+
+/**
+ * Called in this order: onHeaders once, then onProgress (and onData) as
+ * the body arrives, then either onLoad or onError. None of them is called
+ * after abort().
+ */
+export interface TransportHandlers {
+  onHeaders?(response: TransportResponse): void;
+  /** `loaded` is the number of body bytes received so far. */
+  onProgress?(loaded: number): void;
+  /** New body bytes, from transports that stream. */
+  onData?(bytes: Uint8Array<ArrayBuffer>): void;
+  /** `body` is null when it was delivered through onData. */
+  onLoad(response: TransportResponse, body: Blob | null): void;
+  /** A NetworkError, or a TimeoutError once `timeout` has passed. */
+  onError(error: Error): void;
+}
+
+export interface TransportHandle {
+  /** Stops the request; no handler runs afterwards. */
+  abort(): void;
+}
+
+export interface Transport {
+  send(request: TransportRequest, handlers: TransportHandlers): TransportHandle;
+}
+
+/**
+ * XMLHttpRequest with a blob response. The body is only available once it
+ * is complete, so partial chunks can't be kept.
+ */
+export class XhrTransport implements Transport {
+  send(
+    request: TransportRequest,
+    handlers: TransportHandlers,
+  ): TransportHandle {
+    const xhr = new XMLHttpRequest();
+    const response: TransportResponse = {
+      get status() {
+        return xhr.status;
+      },
+      get statusText() {
+        return xhr.statusText;
+      },
+      getHeader: (name) => xhr.getResponseHeader(name),
+    };
+
+    xhr.onreadystatechange = () => {
+      // HEADERS_RECEIVED
+      if (xhr.readyState === 2) handlers.onHeaders?.(response);
+    };
+    xhr.onprogress = (e: ProgressEvent) => handlers.onProgress?.(e.loaded);
+    xhr.onload = () =>
+      handlers.onLoad(
+        response,
+        request.method === "HEAD" ? null : xhr.response,
+      );
+    xhr.onerror = () => handlers.onError(new NetworkError());
+    xhr.ontimeout = () =>
+      handlers.onError(
+        new TimeoutError(`No response within ${request.timeout}ms`),
+      );
+    // Our own aborts detach the handlers first, so this one came from elsewhere
+    xhr.onabort = () =>
+      handlers.onError(new NetworkError("Aborted unexpectedly"));
+
+    xhr.open(request.method, request.url, true);
+    xhr.responseType = "blob";
+    xhr.timeout = request.timeout;
+    for (const [name, value] of Object.entries(request.headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    if (request.withCredentials) {
+      xhr.withCredentials = true;
+    }
+    xhr.send();
+
+    return {
+      abort() {
+        xhr.onreadystatechange = null;
+        xhr.onprogress = null;
+        xhr.onload = null;
+        xhr.onerror = null;
+        xhr.ontimeout = null;
+        xhr.onabort = null;
+        xhr.abort();
+      },
+    };
+  }
+}
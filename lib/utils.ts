@@ -2,10 +2,46 @@ export function calculatePercent(loaded: number, total: number): number {
   return total > 0 ? (loaded / total) * 100 : 0;
 }
 
+/**
+ * Seconds left at the given speed, or null when it can't be estimated.
+ */
+export function calculateEta(remaining: number, speed: number): number | null {
+  if (remaining <= 0) return 0;
+  return speed > 0 ? remaining / speed : null;
+}
+
+/**
+ * Last path segment of a URL, decoded, e.g. "report.pdf". Falls back to
+ * "download" when the path has none.
+ */
+export function getFilenameFromUrl(url: string): string {
+  // Workers have a location too; without one the URL must be absolute
+  const path = new URL(url, globalThis.location?.href).pathname;
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  return name ? decodeURIComponent(name) : "download";
+}
+
 export function isOnline(): boolean {
-  return window.navigator.onLine;
+  // Also works in workers, which have no `window`
+  return typeof navigator === "undefined" || navigator.onLine !== false;
 }
 
 export function wait(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+export function generateId(): string {
+  // randomUUID is only available in secure contexts
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Omit applied to each member of a union, so the variants survive, e.g.
+ * for a request type without its `id`.
+ */
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
@@ -1,5 +1,10 @@
 import { DownloadManager } from "./lib/DownloadManager.js";
-import { DownloadTask } from "./lib/DownloadTask.js";
+import {
+  DownloadTask,
+  DownloadTaskProgress,
+  DownloadTaskState,
+} from "./lib/DownloadTask.js";
+import { DownloadJob, JobProgress } from "./lib/DownloadJob.js";
 // Import the error types
 import {
   NetworkError,
@@ -7,6 +12,7 @@ import {
   QuotaError,
   AssemblyError,
   UnsupportedServerError,
+  IntegrityError,
 } from "./lib/errors.js";
 
 /**
@@ -21,6 +27,19 @@ function formatBytes(bytes: number, decimals = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
 }
 
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return "--:--";
+  const s = Math.ceil(seconds);
+  const m = Math.floor(s / 60);
+  return `${m}:${String(s % 60).padStart(2, "0")}`;
+}
+
+// e.g. " — 2.5 MB/s, 0:42 left"
+function formatRate(speed: number, eta: number | null): string {
+  if (speed === 0) return "";
+  return ` — ${formatBytes(Math.round(speed))}/s, ${formatEta(eta)} left`;
+}
+
 const manager = new DownloadManager();
 const urls: { url: string; filename: string }[] = [
   {
@@ -85,6 +104,22 @@ startBtn.addEventListener("click", async () => {
     urls.map((u) => u.filename),
   );
 
+  renderJob(job);
+  manager.startJob(job);
+});
+
+// Show downloads from before the last reload, ready to resume
+manager.restore().then((jobs) => {
+  jobs.forEach((job) => {
+    renderJob(job);
+    manager.startJob(job);
+  });
+});
+
+/**
+ * Builds the progress UI for a job and its tasks.
+ */
+function renderJob(job: DownloadJob) {
   // Create a wrapper for the entire job (progress bar + tasks)
   const jobWrapper = document.createElement("div");
   jobWrapper.className = "p-4 bg-gray-100 rounded-lg shadow-md space-y-4";
@@ -110,32 +145,39 @@ startBtn.addEventListener("click", async () => {
   job.on("start", () => console.log("Job started"));
 
   // *** MERGED job.on('complete') listener ***
-  job.on("complete", () => {
-    console.log("Job complete");
-    jobTitle.textContent = "Job Complete";
+  job.on("complete", (summary) => {
+    console.log("Job complete", summary.state);
+    jobTitle.textContent =
+      summary.state === "completed"
+        ? "Job Complete"
+        : `Job ${summary.state === "canceled" ? "Canceled" : "Partially Failed"}`;
     jobBar.classList.remove("bg-green-600");
     jobBar.classList.add("bg-green-500");
 
     // --- Check status of all tasks ---
     console.log("--- Final Task Status ---");
-    job.tasks.forEach((task) => {
-      if (task.state === "completed") {
-        console.log(`✅ ${task.filename}: ${task.state}`);
-      } else {
-        // This will catch 'error' or any other non-complete state
-        console.log(`❌ ${task.filename}: ${task.state}`);
-      }
+    summary.tasks.forEach(({ task, status, bytes }) => {
+      const icon = status === "completed" ? "✅" : "❌";
+      console.log(`${icon} ${task.filename}: ${status} (${formatBytes(bytes)})`);
     });
     console.log("-------------------------");
   });
 
   // Listen to the job's overall progress
-  job.on("progress", ({ loaded, total, percent }) => {
+  const renderJobProgress = ({
+    loaded,
+    total,
+    percent,
+    averageSpeed,
+    eta,
+  }: JobProgress) => {
     jobBar.style.width = `${percent}%`;
     jobProgressText.textContent = `${percent.toFixed(2)}% (${formatBytes(
       loaded,
-    )} / ${formatBytes(total)})`;
-  });
+    )} / ${formatBytes(total)})${formatRate(averageSpeed, eta)}`;
+  };
+  job.on("progress", renderJobProgress);
+  renderJobProgress(job.getProgress()); // Restored jobs already have progress
 
   job.tasks.forEach((task: DownloadTask) => {
     // Add task to our global list
@@ -183,7 +225,7 @@ startBtn.addEventListener("click", async () => {
     jobWrapper.appendChild(wrapper);
 
     // --- Attach Event Listeners ---
-    task.on("stateChange", (state) => {
+    const renderState = (state: DownloadTaskState) => {
       statusText.textContent = `State: ${state}`;
 
       switch (state) {
@@ -218,15 +260,25 @@ startBtn.addEventListener("click", async () => {
           toggleBtn.disabled = true;
           break;
       }
-    });
+    };
+    task.on("stateChange", renderState);
+    renderState(task.state);
 
     // Update progress bar and text
-    task.on("progress", ({ loaded, total, percent }) => {
+    const renderProgress = ({
+      loaded,
+      total,
+      percent,
+      averageSpeed,
+      eta,
+    }: DownloadTaskProgress) => {
       bar.style.width = `${percent}%`;
       progressText.textContent = `${percent.toFixed(2)}% (${formatBytes(
         loaded,
-      )} / ${formatBytes(total)})`;
-    });
+      )} / ${formatBytes(total)})${formatRate(averageSpeed, eta)}`;
+    };
+    task.on("progress", renderProgress);
+    renderProgress(task.getProgress());
 
     // Handle completion
     task.on("complete", (blob: Blob) => {
@@ -245,6 +297,21 @@ startBtn.addEventListener("click", async () => {
       controls.appendChild(saveLink);
     });
 
+    // Show pending retries; the next state change overwrites this
+    task.on("retry", ({ attempt, maxAttempts, delay }) => {
+      statusText.textContent = `Retrying in ${Math.ceil(
+        delay / 1000,
+      )}s (attempt ${attempt}/${maxAttempts})`;
+    });
+
+    task.on("stalled", ({ idle }) => {
+      statusText.textContent = `Stalled for ${idle / 1000}s, reconnecting...`;
+    });
+
+    task.on("repair", ({ chunks }) => {
+      statusText.textContent = `Re-fetching ${chunks.length} damaged chunk(s)`;
+    });
+
     // Handle errors
     task.on("error", (err: Error) => {
       console.error("Task error:", task.url, err);
@@ -261,8 +328,11 @@ startBtn.addEventListener("click", async () => {
         statusText.textContent = `Error: Server failed (${err.statusCode}).`;
       } else if (err instanceof UnsupportedServerError) {
         statusText.textContent = "Error: Server does not support resume.";
+      } else if (err instanceof IntegrityError) {
+        statusText.textContent = "Error: Checksum mismatch. File is corrupted.";
       } else if (err instanceof AssemblyError) {
-        statusText.textContent = "Error: Download corrupted. Please CANCEL.";
+        statusText.textContent =
+          "Error: Chunks still damaged after repair. Please CANCEL.";
       } else {
         statusText.textContent = `Error: ${err.message}`;
       }
@@ -284,9 +354,7 @@ startBtn.addEventListener("click", async () => {
   job.on("complete", () => {
     console.log(job.tasks);
   });
-
-  manager.startJob(job);
-});
+}
 
 // Global network status listener
 window.addEventListener("online", () => {
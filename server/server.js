@@ -26,12 +26,12 @@ const server = http.createServer((req, res) => {
   // --- 1. CORS Headers (FIXED) ---
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Range");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Range, If-Range, Authorization");
 
   // ✅ THE CRITICAL FIX: Add Accept-Ranges to exposed headers
   res.setHeader(
     "Access-Control-Expose-Headers",
-    "Content-Range, Content-Length, Accept-Ranges", // ✅ Added Accept-Ranges
+    "Content-Range, Content-Length, Accept-Ranges, ETag, Last-Modified", // ✅ Added Accept-Ranges
   );
 
   // Handle pre-flight OPTIONS request
@@ -113,13 +113,23 @@ const server = http.createServer((req, res) => {
 
       // --- 4. Handle File Serving & Range Requests ---
       const fileSize = stats.size;
-      const range = req.headers.range;
+      // Validators let clients detect that the file changed between requests
+      const etag = `"${fileSize.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+      const lastModified = stats.mtime.toUTCString();
+      // If-Range: only honor the Range if the client still has this version
+      const ifRange = req.headers["if-range"];
+      const range =
+        ifRange && ifRange !== etag && ifRange !== lastModified
+          ? undefined
+          : req.headers.range;
       const contentType =
         mimeTypes[path.extname(filePath)] || "application/octet-stream";
 
       // ✅ Set these headers for ALL responses (including HEAD)
       res.setHeader("Content-Type", contentType);
       res.setHeader("Accept-Ranges", "bytes");
+      res.setHeader("ETag", etag);
+      res.setHeader("Last-Modified", lastModified);
 
       if (range) {
         // --- PARTIAL CONTENT ---
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DownloadTask } from "../lib/DownloadTask";
+import { MemoryStorage } from "../lib/memoryStorage";
+import { ScriptedTransport, serveBytes } from "../lib/scriptedTransport";
+import { hasBytes, makeData, silenceLogs } from "./helpers";
+
+const SIZE = 2 * 1024 * 1024;
+
+describe("auth refresh", () => {
+  silenceLogs();
+
+  it("refreshes the token once for parallel 401s", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    const valid = "t1"; // The server already expired "t0"
+    let token = "t0";
+    let refreshes = 0;
+    const transport = new ScriptedTransport((request) =>
+      request.method === "GET" &&
+      request.headers["Authorization"] !== `Bearer ${valid}`
+        ? { status: 401 }
+        : serve(request),
+    );
+    const task = new DownloadTask("http://s/f", "f", {
+      storage: new MemoryStorage(),
+      transport,
+      connections: 3,
+      request: {
+        getHeaders: () => ({ Authorization: `Bearer ${token}` }),
+        refreshToken: async () => {
+          refreshes++;
+          token = valid;
+        },
+      },
+    });
+    const file = await task.start();
+
+    expect(refreshes).toBe(1);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("resolves the URL once for parallel 403s", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    let resolves = 0;
+    const transport = new ScriptedTransport((request) =>
+      request.method === "GET" && !request.url.includes("sig=fresh")
+        ? { status: 403 }
+        : serve(request),
+    );
+    const task = new DownloadTask("http://s/f?sig=old", "f", {
+      storage: new MemoryStorage(),
+      transport,
+      connections: 3,
+      resolveUrl: async () => {
+        resolves++;
+        return "http://s/f?sig=fresh";
+      },
+    });
+    const file = await task.start();
+
+    expect(resolves).toBe(1);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeEach, vi } from "vitest";
+import type { DownloadTask, DownloadTaskEvents } from "../lib/DownloadTask";
+import type { TransportRequest } from "../lib/transport";
+
+/** A file whose bytes can be told apart by position. */
+export function makeData(size: number, seed = 13): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) data[i] = (i * seed) % 251;
+  return data;
+}
+
+/** Whether the blob holds exactly `data`. Faster than a deep toEqual(). */
+export async function hasBytes(blob: Blob, data: Uint8Array): Promise<boolean> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return bytes.length === data.length && bytes.every((b, i) => b === data[i]);
+}
+
+/** The first byte a request asked for, or 0 without a Range header. */
+export function rangeStart(request: TransportRequest): number {
+  const range = /^bytes=(\d+)-/.exec(request.headers["Range"] ?? "");
+  return range ? Number(range[1]) : 0;
+}
+
+/** Resolves with the first of `events` the task emits. */
+export function nextOf<K extends keyof DownloadTaskEvents>(
+  task: DownloadTask,
+  events: K[],
+): Promise<{ event: K; payload: DownloadTaskEvents[K] }> {
+  return new Promise((resolve) => {
+    const offs = events.map((event) =>
+      task.on(event, (payload) => {
+        offs.forEach((off) => off());
+        resolve({ event, payload });
+      }),
+    );
+  });
+}
+
+/** Tasks log their progress; keep the test output readable. */
+export function silenceLogs() {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { DownloadTask, DownloadTaskEvents } from "../lib/DownloadTask";
+import { MemoryStorage } from "../lib/memoryStorage";
+import {
+  ScriptedResponder,
+  ScriptedTransport,
+  serveBytes,
+} from "../lib/scriptedTransport";
+import { hasBytes, makeData, silenceLogs } from "./helpers";
+
+const SIZE = 2 * 1024 * 1024;
+
+/** Routes each request to the responder of its host. */
+function hosts(responders: Record<string, ScriptedResponder>) {
+  return new ScriptedTransport((request) =>
+    responders[new URL(request.url).host](request),
+  );
+}
+
+function download(transport: ScriptedTransport, mirrors: string[]) {
+  const task = new DownloadTask("http://a/f", "f", {
+    storage: new MemoryStorage(),
+    transport,
+    mirrors,
+    connections: 3,
+  });
+  const disabled: DownloadTaskEvents["mirrorDisabled"][] = [];
+  task.on("mirrorDisabled", (mirror) => disabled.push(mirror));
+  return { task, disabled };
+}
+
+describe("mirror validation", () => {
+  silenceLogs();
+
+  it("drops a mirror whose ETag differs", async () => {
+    const data = makeData(SIZE);
+    const { task, disabled } = download(
+      hosts({
+        a: serveBytes(data, { ETag: '"v1"' }),
+        b: serveBytes(makeData(SIZE, 7), { ETag: '"v2"' }),
+      }),
+      ["http://b/f"],
+    );
+    const file = await task.start();
+
+    expect(disabled).toEqual([
+      expect.objectContaining({ url: "http://b/f", status: "mismatch" }),
+    ]);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("checks mirrors when the source sends no validators", async () => {
+    const data = makeData(SIZE);
+    const { task, disabled } = download(
+      hosts({
+        a: serveBytes(data),
+        b: serveBytes(makeData(SIZE + 1000, 7), { ETag: '"other"' }),
+      }),
+      ["http://b/f"],
+    );
+    const file = await task.start();
+
+    expect(disabled).toEqual([
+      expect.objectContaining({ url: "http://b/f", status: "mismatch" }),
+    ]);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("takes the validators from the first response when HEAD fails", async () => {
+    const data = makeData(SIZE);
+    const noHead =
+      (serve: ScriptedResponder): ScriptedResponder =>
+      (request) =>
+        request.method === "HEAD" ? { status: 405 } : serve(request);
+    const { task, disabled } = download(
+      hosts({
+        a: noHead(serveBytes(data, { ETag: '"v1"' })),
+        b: noHead(serveBytes(makeData(SIZE, 7), { ETag: '"v2"' })),
+      }),
+      ["http://b/f"],
+    );
+    const file = await task.start();
+
+    expect(disabled).toEqual([
+      expect.objectContaining({ url: "http://b/f", status: "mismatch" }),
+    ]);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+});
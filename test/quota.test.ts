@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import { DownloadManager } from "../lib/DownloadManager";
+import { DownloadTask, type DownloadTaskState } from "../lib/DownloadTask";
+import { QuotaError } from "../lib/errors";
+import { MemoryStorage } from "../lib/memoryStorage";
+import { ScriptedTransport, serveBytes } from "../lib/scriptedTransport";
+import type { TaskChunk, TaskMetadata } from "../lib/storage";
+import { hasBytes, makeData, nextOf, rangeStart, silenceLogs } from "./helpers";
+
+const SIZE = 2 * 1024 * 1024;
+
+/**
+ * Reports `free` bytes, and runs full after `writesLeft` more chunks.
+ * With `metadataFull`, saving metadata fails too.
+ */
+class LimitedStorage extends MemoryStorage {
+  free: number | null = null;
+  writesLeft = Infinity;
+  metadataFull = false;
+
+  async getAvailableSpace(): Promise<number | null> {
+    return this.free;
+  }
+
+  async saveChunk(chunk: TaskChunk): Promise<void> {
+    if (this.writesLeft <= 0) {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    }
+    this.writesLeft--;
+    return super.saveChunk(chunk);
+  }
+
+  async saveMetadata(metadata: TaskMetadata): Promise<void> {
+    if (this.metadataFull) {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    }
+    return super.saveMetadata(metadata);
+  }
+}
+
+function download(storage: LimitedStorage, data: Uint8Array<ArrayBuffer>) {
+  const transport = new ScriptedTransport(serveBytes(data));
+  const task = new DownloadTask("http://s/f", "f", { storage, transport });
+  return { task, transport };
+}
+
+describe("quota", () => {
+  silenceLogs();
+
+  it("pauses before downloading when the file doesn't fit", async () => {
+    const data = makeData(SIZE);
+    const storage = new LimitedStorage();
+    storage.free = SIZE / 2;
+    const { task, transport } = download(storage, data);
+    const result = task.start();
+
+    const { event, payload } = await nextOf(task, ["quotaExceeded", "error"]);
+    expect(event).toBe("quotaExceeded");
+    expect(payload).toBeInstanceOf(QuotaError);
+    expect(payload).toMatchObject({
+      bytesNeeded: SIZE,
+      bytesAvailable: SIZE / 2,
+    });
+    expect(task.state).toBe("paused");
+    expect(transport.requests.every((r) => r.method === "HEAD")).toBe(true);
+
+    // Space freed
+    storage.free = SIZE;
+    task.resume();
+    expect(await hasBytes(await result, data)).toBe(true);
+  });
+
+  it("pauses on a full disk and resumes from the last saved chunk", async () => {
+    const data = makeData(SIZE);
+    const storage = new LimitedStorage();
+    storage.writesLeft = 2;
+    const { task, transport } = download(storage, data);
+    const result = task.start();
+
+    const { event, payload } = await nextOf(task, ["quotaExceeded", "error"]);
+    expect(event).toBe("quotaExceeded");
+    expect((payload as QuotaError).bytesNeeded).toBeGreaterThan(0);
+    expect(task.state).toBe("paused");
+    const saved = task.getProgress().loaded;
+    expect(saved).toBeGreaterThan(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const sent = transport.requests.length;
+    storage.writesLeft = Infinity;
+    task.resume();
+    const file = await result;
+
+    expect(rangeStart(transport.requests[sent])).toBe(saved);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("pauses when saving progress runs out of space", async () => {
+    const data = makeData(SIZE);
+    const storage = new LimitedStorage();
+    const { task } = download(storage, data);
+    const result = task.start();
+    await nextOf(task, ["progress"]);
+    storage.metadataFull = true;
+
+    const { event } = await nextOf(task, ["quotaExceeded", "error"]);
+    expect(event).toBe("quotaExceeded");
+    expect(task.state).toBe("paused");
+
+    storage.metadataFull = false;
+    task.resume();
+    expect(await hasBytes(await result, data)).toBe(true);
+  });
+
+  it("counts the space other running tasks still need", async () => {
+    const storage = new LimitedStorage();
+    storage.free = SIZE * 1.5;
+    const first = download(storage, makeData(SIZE)).task;
+    const second = download(storage, makeData(SIZE, 7)).task;
+    first.start();
+    await nextOf(first, ["progress"]);
+    second.start();
+
+    const { event } = await nextOf(second, ["quotaExceeded", "progress"]);
+    expect(event).toBe("quotaExceeded");
+    await first.done();
+  });
+
+  it("skips the check with checkQuota: false", async () => {
+    const data = makeData(SIZE);
+    const storage = new LimitedStorage();
+    storage.free = 0;
+    const task = new DownloadTask("http://s/f", "f", {
+      storage,
+      transport: new ScriptedTransport(serveBytes(data)),
+      checkQuota: false,
+    });
+    expect(await hasBytes(await task.start(), data)).toBe(true);
+  });
+
+  it("pauses a job whose files don't fit together before it starts", async () => {
+    const storage = new LimitedStorage();
+    storage.free = SIZE * 1.5;
+    const transport = new ScriptedTransport(serveBytes(makeData(SIZE)));
+    const manager = new DownloadManager(2, { storage });
+    const job = manager.createJob(["http://s/a", "http://s/b"], ["a", "b"], {
+      transport,
+    });
+    const quotaErrors: QuotaError[] = [];
+    manager.on("jobQuotaExceeded", ({ error }) => quotaErrors.push(error));
+    manager.startJob(job);
+
+    await job.waitFor("quotaExceeded");
+    expect(quotaErrors).toHaveLength(1);
+    expect(quotaErrors[0]).toMatchObject({
+      bytesNeeded: 2 * SIZE,
+      bytesAvailable: SIZE * 1.5,
+    });
+    expect(job.state).toBe("paused");
+    expect(transport.requests.every((r) => r.method === "HEAD")).toBe(true);
+
+    storage.free = 2 * SIZE;
+    manager.resumeJob(job);
+    const outcomes = await job.done();
+    expect(outcomes.map((o) => o.status)).toEqual(["completed", "completed"]);
+  });
+
+  it("keeps the queue slot of a task paused for quota", async () => {
+    const storage = new LimitedStorage();
+    storage.writesLeft = 2;
+    const transport = new ScriptedTransport(serveBytes(makeData(SIZE)));
+    const manager = new DownloadManager(1, { storage });
+    const job = manager.createJob(["http://s/a", "http://s/b"], ["a", "b"], {
+      transport,
+    });
+    const [first, second] = job.tasks;
+    let running = 0;
+    let mostRunning = 0;
+    const active: DownloadTaskState[] = ["fetching_metadata", "downloading"];
+    for (const task of job.tasks) {
+      let wasActive = false;
+      task.on("stateChange", (state) => {
+        const isActive = active.includes(state);
+        running += Number(isActive) - Number(wasActive);
+        wasActive = isActive;
+        mostRunning = Math.max(mostRunning, running);
+      });
+    }
+    manager.startJob(job);
+
+    await nextOf(first, ["quotaExceeded"]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(second.state).toBe("idle");
+
+    storage.writesLeft = Infinity;
+    first.resume();
+    const outcomes = await job.done();
+
+    expect(outcomes.map((o) => o.status)).toEqual(["completed", "completed"]);
+    expect(mostRunning).toBe(1);
+  });
+});
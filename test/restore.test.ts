@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { DownloadJob } from "../lib/DownloadJob";
+import { DownloadManager } from "../lib/DownloadManager";
+import { MemoryStorage } from "../lib/memoryStorage";
+import { ScriptedTransport, serveBytes } from "../lib/scriptedTransport";
+import { hasBytes, makeData, rangeStart, silenceLogs } from "./helpers";
+
+const SIZE = 2 * 1024 * 1024;
+
+/** Pauses `job` once half its file is in, and lets the record be saved. */
+async function pauseHalfway(job: DownloadJob) {
+  await new Promise<void>((resolve) => {
+    const off = job.on("progress", ({ loaded }) => {
+      if (loaded < SIZE / 2) return;
+      off();
+      job.pause();
+      resolve();
+    });
+  });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe("restore", () => {
+  silenceLogs();
+
+  it("finds jobs persisted to their own storage", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    const transport = new ScriptedTransport((request) => ({
+      ...serve(request),
+      parts: 8,
+    }));
+    const shared = new MemoryStorage();
+    const own = new MemoryStorage();
+
+    // The session before the reload
+    const before = new DownloadManager(1, { storage: shared });
+    const other = before.createJob(["http://s/a"], ["a"], { transport });
+    const job = before.createJob(["http://s/b"], ["b"], {
+      storage: own,
+      transport,
+    });
+    before.startJob(job);
+    await pauseHalfway(job);
+
+    const after = new DownloadManager(1, { storage: shared });
+    expect((await after.restore()).map((j) => j.id)).toEqual([other.id]);
+    const manager = new DownloadManager(1, { storage: shared });
+    const restored = await manager.restore({ storage: own, transport });
+    expect(restored.map((j) => j.id).sort()).toEqual([other.id, job.id].sort());
+
+    const again = restored.find((j) => j.id === job.id)!;
+    expect(again.state).toBe("paused");
+    const sent = transport.requests.length;
+    const result = again.tasks[0].done();
+    manager.startJob(again);
+    const file = await result;
+
+    expect(rangeStart(transport.requests[sent])).toBeGreaterThan(0);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("saves the URL the task was created with, not a resolved one", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    let valid = "1";
+    const transport = new ScriptedTransport((request) =>
+      request.method === "GET" && !request.url.includes(`sig=${valid}`)
+        ? { status: 403 }
+        : { ...serve(request), parts: 8 },
+    );
+    let resolved = 0;
+    const resolveUrl = () => `http://s/f?sig=${++resolved}`;
+    const storage = new MemoryStorage();
+
+    const before = new DownloadManager(1, { storage });
+    const job = before.createJob(["http://s/f"], ["f"], {
+      transport,
+      resolveUrl,
+    });
+    before.startJob(job);
+    await pauseHalfway(job);
+    const [record] = await storage.getJobs();
+    expect(record.tasks[0].url).toBe("http://s/f");
+
+    valid = "2"; // The signature expired meanwhile
+    const manager = new DownloadManager(1, { storage });
+    const [again] = await manager.restore({ transport, resolveUrl });
+    const sent = transport.requests.length;
+    const result = again.tasks[0].done();
+    manager.startJob(again);
+    const file = await result;
+
+    // Resolved before the first request, rather than after a 403
+    const requests = transport.requests.slice(sent);
+    expect(requests.every((r) => r.url.includes("sig=2"))).toBe(true);
+    expect(resolved).toBe(2);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { DownloadTask, type DownloadTaskEvents } from "../lib/DownloadTask";
+import { MemoryStorage } from "../lib/memoryStorage";
+import { ScriptedTransport, serveBytes } from "../lib/scriptedTransport";
+import type { TaskChunk } from "../lib/storage";
+import { hasBytes, makeData, rangeStart, silenceLogs } from "./helpers";
+
+const SIZE = 2 * 1024 * 1024;
+const CHUNK = 256 * 1024; // What a 2MB file starts with
+
+// Slow enough that the download can be paused halfway
+function slowServer(data: Uint8Array<ArrayBuffer>) {
+  const serve = serveBytes(data, { ETag: '"v1"' });
+  return new ScriptedTransport((request) => ({ ...serve(request), parts: 8 }));
+}
+
+/** Pauses `task` once half the file is in. */
+async function pauseHalfway(task: DownloadTask) {
+  await new Promise<void>((resolve) => {
+    const off = task.on("progress", ({ loaded }) => {
+      if (loaded < SIZE / 2) return;
+      off();
+      task.pause();
+      resolve();
+    });
+  });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe("resume", () => {
+  silenceLogs();
+
+  it("continues from the saved bytes after pause()", async () => {
+    const data = makeData(SIZE);
+    const transport = slowServer(data);
+    const task = new DownloadTask("http://s/f", "f", {
+      storage: new MemoryStorage(),
+      transport,
+    });
+    const result = task.start();
+    await pauseHalfway(task);
+    const sent = transport.requests.length;
+
+    task.resume();
+    const file = await result;
+
+    const resumed = transport.requests.slice(sent);
+    expect(rangeStart(resumed[0])).toBeGreaterThan(0);
+    expect(resumed.every((r) => rangeStart(r) > 0)).toBe(true);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("picks up a download saved by an earlier session", async () => {
+    const data = makeData(SIZE);
+    const storage = new MemoryStorage();
+    const first = new DownloadTask(
+      "http://s/f",
+      "f",
+      { storage, transport: slowServer(data) },
+      "task-1",
+    );
+    first.start();
+    await pauseHalfway(first);
+
+    // As after a reload: a new task with the same id and storage
+    const transport = slowServer(data);
+    const second = new DownloadTask(
+      "http://s/f",
+      "f",
+      { storage, transport },
+      "task-1",
+    );
+    const file = await second.start();
+
+    expect(transport.requests.some((r) => r.method === "HEAD")).toBe(false);
+    expect(rangeStart(transport.requests[0])).toBeGreaterThan(0);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("keeps chunks saved before offsets were stored", async () => {
+    const data = makeData(4 * CHUNK);
+    const storage = new MemoryStorage();
+    // A record from before adaptive chunk sizes and chunk offsets
+    await storage.saveMetadata({
+      id: "legacy",
+      url: "http://s/f",
+      filename: "f",
+      totalBytes: data.length,
+      downloadedBytes: 2 * CHUNK,
+      supportsResume: true,
+      chunkSize: CHUNK,
+      completedChunks: [0, 1],
+    });
+    for (const index of [0, 1]) {
+      const blob = new Blob([
+        data.subarray(index * CHUNK, (index + 1) * CHUNK),
+      ]);
+      await storage.saveChunk({ taskId: "legacy", index, blob } as TaskChunk);
+    }
+
+    const transport = new ScriptedTransport(serveBytes(data));
+    const task = new DownloadTask(
+      "http://s/f",
+      "f",
+      { storage, transport },
+      "legacy",
+    );
+    const repairs: number[][] = [];
+    task.on("repair", ({ chunks }) => repairs.push(chunks));
+    const file = await task.start();
+
+    expect(repairs).toEqual([]);
+    expect(transport.requests.map(rangeStart)).toEqual([2 * CHUNK, 3 * CHUNK]);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("starts over when the file changes while paused", async () => {
+    const before = makeData(SIZE);
+    const after = makeData(SIZE, 7);
+    let serve = serveBytes(before, { ETag: '"v1"' });
+    const transport = new ScriptedTransport((request) => ({
+      ...serve(request),
+      parts: 8,
+    }));
+    const task = new DownloadTask("http://s/f", "f", {
+      storage: new MemoryStorage(),
+      transport,
+    });
+    const changes: DownloadTaskEvents["remoteChanged"][] = [];
+    task.on("remoteChanged", (change) => changes.push(change));
+    const result = task.start();
+    await pauseHalfway(task);
+
+    serve = serveBytes(after, { ETag: '"v2"' });
+    task.resume();
+    const file = await result;
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].previous.etag).toBe('"v1"');
+    expect(changes[0].current.etag).toBe('"v2"');
+    expect(await hasBytes(file, after)).toBe(true);
+  });
+
+  it("fails instead of rejecting unhandled when starting over fails", async () => {
+    const storage = new MemoryStorage();
+    storage.clearChunks = () => Promise.reject(new Error("Disk gone"));
+    let serve = serveBytes(makeData(SIZE), { ETag: '"v1"' });
+    const transport = new ScriptedTransport((request) => ({
+      ...serve(request),
+      parts: 8,
+    }));
+    const task = new DownloadTask("http://s/f", "f", { storage, transport });
+    const result = task.start();
+    await pauseHalfway(task);
+
+    serve = serveBytes(makeData(SIZE, 7), { ETag: '"v2"' });
+    task.resume();
+
+    await expect(result).rejects.toThrow("Disk gone");
+    expect(task.state).toBe("error");
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  DownloadTask,
+  type DownloadTaskOptions,
+  type DownloadTaskState,
+  type RetryEvent,
+  type StalledEvent,
+} from "../lib/DownloadTask";
+import { CanceledError, HttpError } from "../lib/errors";
+import { MemoryStorage } from "../lib/memoryStorage";
+import {
+  ScriptedTransport,
+  serveBytes,
+  type ScriptedResponder,
+} from "../lib/scriptedTransport";
+import { hasBytes, makeData, nextOf, rangeStart, silenceLogs } from "./helpers";
+
+const SIZE = 1024 * 1024;
+const CHUNK = 256 * 1024; // What a 1MB file starts with
+
+const tick = (ms = 20) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A task on `respond` that records the states it goes through. */
+function scripted(
+  respond: ScriptedResponder,
+  options: DownloadTaskOptions = {},
+) {
+  const storage = new MemoryStorage();
+  const transport = new ScriptedTransport(respond);
+  const task = new DownloadTask(
+    "http://s/f",
+    "f",
+    { storage, transport, ...options },
+    "task-1",
+  );
+  const states: DownloadTaskState[] = [];
+  task.on("stateChange", (state) => states.push(state));
+  return { task, transport, storage, states };
+}
+
+describe("state transitions", () => {
+  silenceLogs();
+
+  it("sends nothing while paused and completes after resume()", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    const { task, transport, states } = scripted((request) => ({
+      ...serve(request),
+      parts: 8,
+    }));
+    const result = task.start();
+    await nextOf(task, ["progress"]);
+
+    task.pause();
+    const sent = transport.requests.length;
+    await tick();
+    expect(task.state).toBe("paused");
+    expect(transport.requests.length).toBe(sent);
+
+    task.resume();
+    const file = await result;
+
+    expect(states).toEqual([
+      "fetching_metadata",
+      "downloading",
+      "paused",
+      "downloading",
+      "assembling",
+      "completed",
+    ]);
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("stops requests and clears saved data on cancel()", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    const { task, transport, storage, states } = scripted((request) => ({
+      ...serve(request),
+      parts: 8,
+    }));
+    const result = task.start();
+    await nextOf(task, ["progress"]);
+
+    await task.cancel();
+    const sent = transport.requests.length;
+    await tick();
+
+    await expect(result).rejects.toBeInstanceOf(CanceledError);
+    expect(states.at(-1)).toBe("canceled");
+    expect(transport.requests.length).toBe(sent);
+    expect(await storage.getMetadata("task-1")).toBeUndefined();
+    expect(await storage.getChunks("task-1")).toEqual([]);
+  });
+
+  it("backs off exponentially between retries of a chunk", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    let failures = 2;
+    const { task, transport, states } = scripted(
+      (request) =>
+        request.method === "GET" && rangeStart(request) === 0 && failures-- > 0
+          ? { status: 503 }
+          : serve(request),
+      { retryPolicy: { baseDelay: 10, jitter: "none" } },
+    );
+    const retries: RetryEvent[] = [];
+    task.on("retry", (retry) => retries.push(retry));
+    const file = await task.start();
+
+    expect(
+      retries.map(({ chunk, attempt, delay }) => ({ chunk, attempt, delay })),
+    ).toEqual([
+      { chunk: 0, attempt: 2, delay: 10 },
+      { chunk: 0, attempt: 3, delay: 20 },
+    ]);
+    expect(retries[0].error).toBeInstanceOf(HttpError);
+    expect(transport.requests.filter((r) => rangeStart(r) === 0)).toHaveLength(
+      4, // The HEAD and three GETs
+    );
+    expect(states).not.toContain("error");
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+
+  it("fails once a chunk runs out of attempts", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    const { task, states } = scripted(
+      (request) =>
+        request.method === "GET" && rangeStart(request) === CHUNK
+          ? { status: 500 }
+          : serve(request),
+      { retryPolicy: { maxAttempts: 2, baseDelay: 10 } },
+    );
+    const retries: RetryEvent[] = [];
+    task.on("retry", (retry) => retries.push(retry));
+
+    await expect(task.start()).rejects.toMatchObject({ statusCode: 500 });
+    expect(retries.map(({ chunk, attempt }) => [chunk, attempt])).toEqual([
+      [1, 2],
+    ]);
+    expect(states.at(-1)).toBe("error");
+  });
+
+  it("aborts a stalled chunk and resumes it from the bytes received", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    let stalls = 1;
+    const { task, transport, states } = scripted(
+      (request) => {
+        const reply = { ...serve(request), parts: 4 };
+        return request.method === "GET" &&
+          rangeStart(request) === 0 &&
+          stalls-- > 0
+          ? { ...reply, hangAfter: CHUNK / 2 }
+          : reply;
+      },
+      { timeouts: { stall: 50 }, retryPolicy: { baseDelay: 10 } },
+    );
+    const stalled: StalledEvent[] = [];
+    task.on("stalled", (event) => stalled.push(event));
+    const retries: RetryEvent[] = [];
+    task.on("retry", (retry) => retries.push(retry));
+    const file = await task.start();
+
+    expect(stalled).toEqual([
+      { chunk: 0, url: "http://s/f", received: CHUNK / 2, idle: 50 },
+    ]);
+    expect(retries).toHaveLength(1);
+    // The bytes received before the stall are kept, not fetched again
+    expect(transport.requests.map(rangeStart)).toContain(CHUNK / 2);
+    expect(states).not.toContain("error");
+    expect(await hasBytes(file, data)).toBe(true);
+  });
+});
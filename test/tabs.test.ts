@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DownloadTask } from "../lib/DownloadTask";
+import { MemoryStorage } from "../lib/memoryStorage";
+import { ScriptedTransport, serveBytes } from "../lib/scriptedTransport";
+import { TabCoordinator } from "../lib/tabCoordinator";
+import { hasBytes, makeData, nextOf, silenceLogs } from "./helpers";
+
+const SIZE = 1024 * 1024;
+
+type LockCallback = (lock: { name: string } | null) => unknown;
+
+/**
+ * Web Locks shared by the tabs of one test. A lock let go of goes to the
+ * next in line at once, before messages posted meanwhile arrive.
+ */
+class SharedLocks {
+  private held: Set<string> = new Set();
+  private waiting: Map<string, (() => void)[]> = new Map();
+
+  async request(
+    name: string,
+    options: { ifAvailable?: boolean; signal?: AbortSignal },
+    callback: LockCallback,
+  ) {
+    if (this.held.has(name)) {
+      if (options.ifAvailable) return callback(null);
+      await new Promise<void>((resolve, reject) => {
+        const queue = this.waiting.get(name) ?? [];
+        queue.push(resolve);
+        this.waiting.set(name, queue);
+        options.signal?.addEventListener("abort", () => {
+          queue.splice(queue.indexOf(resolve), 1);
+          reject(new DOMException("Aborted", "AbortError"));
+        });
+      });
+    }
+    this.held.add(name);
+    try {
+      return await callback({ name });
+    } finally {
+      const next = this.waiting.get(name)?.shift();
+      if (next) next();
+      else this.held.delete(name);
+    }
+  }
+}
+
+describe("tab coordination", () => {
+  silenceLogs();
+  const coordinators: TabCoordinator[] = [];
+
+  beforeEach(() => {
+    vi.stubGlobal("navigator", { locks: new SharedLocks() });
+  });
+
+  afterEach(() => {
+    coordinators.splice(0).forEach((coordinator) => coordinator.close());
+    vi.unstubAllGlobals();
+  });
+
+  it("doesn't start a download again that completed in the owning tab", async () => {
+    const data = makeData(SIZE);
+    const serve = serveBytes(data);
+    const transport = new ScriptedTransport((request) => ({
+      ...serve(request),
+      parts: 8,
+    }));
+    const storage = new MemoryStorage();
+    // Two tabs, sharing the storage as they would IndexedDB
+    const [owner, observer] = [0, 1].map(() => {
+      const coordinator = new TabCoordinator("test-tabs");
+      coordinators.push(coordinator);
+      return new DownloadTask(
+        "http://s/f",
+        "f",
+        { storage, transport, coordinator },
+        "task-1",
+      );
+    });
+
+    const owned = owner.start();
+    await nextOf(owner, ["progress"]);
+    const observed = observer.start();
+    await nextOf(observer, ["progress"]);
+    expect(observer.role).toBe("observer");
+
+    expect(await hasBytes(await owned, data)).toBe(true);
+    const sent = transport.requests.length;
+    expect(await hasBytes(await observed, data)).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(observer.state).toBe("completed");
+    expect(transport.requests.length).toBe(sent);
+  });
+});